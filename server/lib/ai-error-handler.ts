@@ -26,10 +26,7 @@ export async function withRetry<T>(
       lastError = error instanceof Error ? error : new Error(String(error));
       
       if (attempt < opts.maxRetries) {
-        const delay = Math.min(
-          opts.baseDelay * Math.pow(2, attempt),
-          opts.maxDelay
-        );
+        const delay = getBackoffDelay(attempt, opts);
         console.warn(
           `[AI Retry] Attempt ${attempt + 1} failed, retrying in ${delay}ms:`,
           lastError.message
@@ -42,6 +39,15 @@ export async function withRetry<T>(
   throw lastError;
 }
 
+// Exponential backoff: baseDelay * 2^attempt, capped at maxDelay
+export function getBackoffDelay(
+  attempt: number,
+  options: Partial<RetryOptions> = {}
+): number {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  return Math.min(opts.baseDelay * Math.pow(2, attempt), opts.maxDelay);
+}
+
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
@@ -20,6 +20,20 @@ export async function createAuditEntry(
   });
 }
 
+export async function createUserAuditEntry(
+  action: AuditAction,
+  actorId: string | null,
+  targetUserId: string,
+  changes: Record<string, any>
+): Promise<void> {
+  await db.insert(auditLog).values({
+    action,
+    actorId,
+    targetUserId,
+    changes,
+  });
+}
+
 export function parseSafetyFlags(assessment: SafetyAssessment): {
   shouldBlock: boolean;
   requiresReview: boolean;
@@ -2,12 +2,26 @@
 // Ensures true randomness for Oracle page (no bias toward trending/recent)
 
 export function secureRandomInt(max: number): number {
-  // Use crypto.getRandomValues for true randomness
+  // Use crypto.getRandomValues for true randomness; values from the incomplete
+  // top bucket are rejected so `% max` does not favour small results
+  const limit = 0x100000000 - (0x100000000 % max);
   const array = new Uint32Array(1);
-  crypto.getRandomValues(array);
+  do {
+    crypto.getRandomValues(array);
+  } while (array[0] >= limit);
   return array[0] % max;
 }
 
+// Unbiased Fisher-Yates shuffle; returns a new array
+export function secureShuffle<T>(items: readonly T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = secureRandomInt(i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
 export function secureRandomChoice<T>(items: T[]): T {
   if (items.length === 0) {
     throw new Error("Cannot select from empty array");
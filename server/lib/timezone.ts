@@ -0,0 +1,28 @@
+// Calendar-day helpers for per-user timezones (IANA names, e.g. "Europe/Berlin")
+
+export const DEFAULT_TIMEZONE = "UTC";
+
+export function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The user's calendar day for an instant, as YYYY-MM-DD
+export function localDayKey(date: Date, timezone: string): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: isValidTimeZone(timezone) ? timezone : DEFAULT_TIMEZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+}
+
+// Whole days from one YYYY-MM-DD key to another (positive when `to` is later)
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+}
@@ -0,0 +1,35 @@
+// Enforcement Middleware
+// Blocks content creation while the user's strikes trigger a restriction
+import type { Response, NextFunction } from "express";
+import { getStrikeStanding } from "../services/strikes";
+import { restrictionConfigs } from "@shared/strikes";
+import type { RestrictedAction } from "@shared/types";
+
+// Create middleware that rejects the action if an active restriction blocks it
+export function enforceRestrictions(action: RestrictedAction) {
+  return (req: any, res: Response, next: NextFunction): void => {
+    if (!req.user?.claims?.sub) {
+      res.status(401).json({ message: "Authentication required" });
+      return;
+    }
+
+    getStrikeStanding(req.user.claims.sub)
+      .then((standing) => {
+        const config = standing.restriction ? restrictionConfigs[standing.restriction] : null;
+        if (!config?.blocks.includes(action)) {
+          next();
+          return;
+        }
+        res.status(403).json({
+          message: `${config.message} until ${new Date(standing.restrictedUntil!).toUTCString()}`,
+          restriction: standing.restriction,
+          restrictedUntil: standing.restrictedUntil,
+          activeStrikes: standing.activeStrikes,
+        });
+      })
+      .catch((err) => {
+        console.error("Restriction check failed:", err);
+        res.status(500).json({ message: "Restriction check failed" });
+      });
+  };
+}
@@ -1,49 +1,59 @@
 // Moderation Authentication Middleware
-// Checks if user has admin/moderator role
-import type { Request, Response, NextFunction } from "express";
+// Checks the user's role and granted permissions before allowing access
+import type { Response, NextFunction } from "express";
 import { db } from "../db";
 import { users } from "@shared/models/auth";
 import { eq } from "drizzle-orm";
+import { getEffectivePermissions } from "@shared/permissions";
+import type { Permission, UserRole } from "@shared/types";
 
-// For now, we use a simple role check. Since the existing user table
-// doesn't have a role field, we'll consider users with auraLevel >= 10 as moderators.
-// In production, add a proper role column.
-export function isModerator(req: any, res: Response, next: NextFunction): void {
-  if (!req.user?.claims?.sub) {
-    res.status(401).json({ message: "Authentication required" });
-    return;
-  }
-
-  // Check moderator status  
-  const userId = req.user.claims.sub;
-  
-  db.select({ auraLevel: users.auraLevel })
+// Bootstrap admins (comma-separated user ids) so the first admin can grant roles
+const BOOTSTRAP_ADMIN_IDS = (process.env.ADMIN_USER_IDS || "")
+  .split(",")
+  .map((id) => id.trim())
+  .filter(Boolean);
+
+export async function loadUserAccess(
+  userId: string
+): Promise<{ role: UserRole; permissions: Permission[] } | undefined> {
+  const [user] = await db
+    .select({ role: users.role, permissions: users.permissions })
     .from(users)
-    .where(eq(users.id, userId))
-    .then(([user]) => {
-      if (!user || user.auraLevel < 10) {
-        // For development, allow all authenticated users
-        // In production, enforce role-based access
-        if (process.env.NODE_ENV === "production") {
-          res.status(403).json({ message: "Moderator access required" });
+    .where(eq(users.id, userId));
+
+  if (!user) return undefined;
+
+  const role: UserRole = BOOTSTRAP_ADMIN_IDS.includes(userId) ? "admin" : user.role;
+  return { role, permissions: getEffectivePermissions(role, user.permissions) };
+}
+
+// Create middleware that requires every listed permission
+export function requirePermission(...required: Permission[]) {
+  return (req: any, res: Response, next: NextFunction): void => {
+    if (!req.user?.claims?.sub) {
+      res.status(401).json({ message: "Authentication required" });
+      return;
+    }
+
+    loadUserAccess(req.user.claims.sub)
+      .then((access) => {
+        const missing = required.filter((p) => !access?.permissions.includes(p));
+        if (!access || missing.length > 0) {
+          res.status(403).json({ message: "Insufficient permissions", missing });
           return;
         }
-      }
-      next();
-    })
-    .catch((err) => {
-      console.error("Moderator auth check failed:", err);
-      res.status(500).json({ message: "Auth check failed" });
-    });
+        req.access = access;
+        next();
+      })
+      .catch((err) => {
+        console.error("Permission check failed:", err);
+        res.status(500).json({ message: "Auth check failed" });
+      });
+  };
 }
 
-export function isAdmin(req: any, res: Response, next: NextFunction): void {
-  if (!req.user?.claims?.sub) {
-    res.status(401).json({ message: "Authentication required" });
-    return;
-  }
+// Moderators can read and act on the moderation queue
+export const isModerator = requirePermission("moderate:read");
 
-  // For development, treat all authenticated users as admin
-  // In production, check for admin role
-  next();
-}
+// Admins manage users; role-specific permissions are checked per route
+export const isAdmin = requirePermission("users:manage");
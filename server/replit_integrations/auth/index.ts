@@ -1,3 +1,3 @@
-export { setupAuth, isAuthenticated, getSession } from "./replitAuth";
+export { setupAuth, isAuthenticated, getSession, getSessionUserId } from "./replitAuth";
 export { authStorage, type IAuthStorage } from "./storage";
 export { registerAuthRoutes } from "./routes";
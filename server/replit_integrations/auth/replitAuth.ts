@@ -3,10 +3,12 @@ import { Strategy, type VerifyFunction } from "openid-client/passport";
 
 import passport from "passport";
 import session from "express-session";
-import type { Express, RequestHandler } from "express";
+import type { Express, Request, Response, RequestHandler } from "express";
+import type { IncomingMessage } from "http";
 import memoize from "memoizee";
 import connectPg from "connect-pg-simple";
 import { authStorage } from "./storage";
+import { getAccountBlock, accountBlockMessage } from "../../services/account-status";
 
 const getOidcConfig = memoize(
   async () => {
@@ -18,7 +20,12 @@ const getOidcConfig = memoize(
   { maxAge: 3600 * 1000 }
 );
 
-export function getSession() {
+let sessionMiddleware: RequestHandler | undefined;
+
+// Shared so HTTP routes and WebSocket upgrades read the same session store
+export function getSession(): RequestHandler {
+  if (sessionMiddleware) return sessionMiddleware;
+
   const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
   const pgStore = connectPg(session);
   const sessionStore = new pgStore({
@@ -27,7 +34,7 @@ export function getSession() {
     ttl: sessionTtl,
     tableName: "sessions",
   });
-  return session({
+  sessionMiddleware = session({
     secret: process.env.SESSION_SECRET!,
     store: sessionStore,
     resave: false,
@@ -39,10 +46,67 @@ export function getSession() {
       maxAge: sessionTtl,
     },
   });
+  return sessionMiddleware;
+}
+
+// The user passport keeps in the session (see updateUserSession)
+interface SessionUser {
+  claims?: { sub?: string; exp?: number; [claim: string]: unknown };
+  access_token?: string;
+  refresh_token?: string;
+  expires_at?: number;
+}
+
+type PassportSession = session.Session & { passport?: { user?: SessionUser } };
+
+// Resolve the logged-in user id for a raw HTTP request (e.g. a WebSocket upgrade)
+// from the express-session cookie, refreshing expired tokens like isAuthenticated
+export function getSessionUserId(req: IncomingMessage): Promise<string | null> {
+  return new Promise((resolve, reject) => {
+    getSession()(req as Request, {} as Response, () => {
+      const sess = (req as Request).session as PassportSession | undefined;
+      const user = sess?.passport?.user;
+      const userId = user?.claims?.sub;
+      if (!sess || !user || !userId || !user.expires_at) {
+        resolve(null);
+        return;
+      }
+
+      const now = Math.floor(Date.now() / 1000);
+      if (now <= user.expires_at) {
+        resolve(userId);
+        return;
+      }
+
+      refreshSessionUser(user)
+        .then((refreshed) => {
+          if (!refreshed) {
+            resolve(null);
+            return;
+          }
+          // No response goes through express-session here, so persist explicitly
+          sess.save((err) => (err ? reject(err) : resolve(userId)));
+        })
+        .catch(reject);
+    });
+  });
+}
+
+// Swap an expired access token for a fresh one; false if the session can't be renewed
+async function refreshSessionUser(user: SessionUser): Promise<boolean> {
+  if (!user.refresh_token) return false;
+  try {
+    const config = await getOidcConfig();
+    const tokenResponse = await client.refreshTokenGrant(config, user.refresh_token);
+    updateUserSession(user, tokenResponse);
+    return true;
+  } catch (error) {
+    return false;
+  }
 }
 
 function updateUserSession(
-  user: any,
+  user: SessionUser,
   tokens: client.TokenEndpointResponse & client.TokenEndpointResponseHelpers
 ) {
   user.claims = tokens.claims();
@@ -139,23 +203,28 @@ export const isAuthenticated: RequestHandler = async (req, res, next) => {
   }
 
   const now = Math.floor(Date.now() / 1000);
-  if (now <= user.expires_at) {
-    return next();
-  }
-
-  const refreshToken = user.refresh_token;
-  if (!refreshToken) {
+  if (now > user.expires_at && !(await refreshSessionUser(user))) {
     res.status(401).json({ message: "Unauthorized" });
     return;
   }
 
+  // Suspended and banned users keep their session but can't use it
   try {
-    const config = await getOidcConfig();
-    const tokenResponse = await client.refreshTokenGrant(config, refreshToken);
-    updateUserSession(user, tokenResponse);
-    return next();
+    const block = await getAccountBlock(user.claims.sub);
+    if (block) {
+      res.status(403).json({
+        message: accountBlockMessage(block),
+        accountStatus: block.status,
+        reason: block.reason,
+        until: block.until,
+      });
+      return;
+    }
   } catch (error) {
-    res.status(401).json({ message: "Unauthorized" });
+    console.error("Account status check failed:", error);
+    res.status(500).json({ message: "Auth check failed" });
     return;
   }
+
+  return next();
 };
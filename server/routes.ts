@@ -1,30 +1,54 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, type SparkToggleResult } from "./storage";
 import { setupAuth, registerAuthRoutes, isAuthenticated } from "./replit_integrations/auth";
 import { registerObjectStorageRoutes } from "./replit_integrations/object_storage";
-import { insertPostSchema, insertCommentSchema, type ChakraType, chakraTypes, insertVideoSchema, insertElementPostSchema, moderationDecisionSchema, videos, posts, moderationQueue, auditLog, contentTrending, viewSessions, elementCategories as elementCategoriesTable } from "@shared/schema";
+import { insertPostSchema, insertCommentSchema, updateCommentSchema, MAX_COMMENT_DEPTH, sparkReactionSchema, sparkTypeConfig, type ChakraType, chakraTypes, insertVideoSchema, insertElementPostSchema, moderationDecisionSchema, bulkModerationDecisionSchema, updateUserRoleSchema, grantPermissionSchema, suspendUserSchema, banUserSchema, reinstateUserSchema, jobListQuerySchema, searchQuerySchema, tarotReadingSchema, energyReconcileSchema, notificationListQuerySchema, markNotificationsReadSchema, createReportSchema, reportListQuerySchema, moderationQueueQuerySchema, assignQueueItemSchema, createAppealSchema, appealDecisionSchema, appealListQuerySchema, videos, posts, auditLog, contentTrending, viewSessions, elementCategories as elementCategoriesTable } from "@shared/schema";
 import { z } from "zod";
 import { db } from "./db";
-import { eq, desc, sql, and, count } from "drizzle-orm";
+import { eq, ne, desc, sql, and, count, inArray, isNull } from "drizzle-orm";
 import { users } from "@shared/models/auth";
-import { getFeedByElement, getTrendingByElement, incrementViewCount, getRandomPublishedContent, invalidateFeedCache } from "./services/feed-service";
+import { getFeedByElement, decodeFeedCursor, getTrendingByElement, incrementViewCount, getRandomPublishedContent, invalidateFeedCache, ageRestrictionFilter } from "./services/feed-service";
 import { getUserRecommendations } from "./services/recommendations";
-import { processVideoUpload, processPostCreation, resolveModeration } from "./services/moderation-workflow";
+import { enqueueVideoAnalysis, enqueuePostAnalysis, enqueueCommentAnalysis, checkCommentEditable, registerModerationJobHandlers, decideQueueItem, decideQueueItems } from "./services/moderation-workflow";
+import { startJobWorker, listJobs, retryJob, cancelJob } from "./services/job-queue";
 import { calculateTrendingScores } from "./services/trending-calculator";
+import { recordContentEvent } from "./services/content-events";
+import { publishViewingEvent, disconnectUser } from "./websocket/friends-watching";
+import { followUser, unfollowUser, blockUser, unblockUser, isBlockedEitherWay, getRelationship, getFriendIds, getFollowing, getFollowers, getFriends } from "./services/social-graph";
+import { search, toSearchQuery, videoSearchVector } from "./services/search-service";
+import { listNotifications, getUnreadCount, markNotificationsRead, notifySpark } from "./services/notifications";
+import { generateDailyReading, generateTarotReading } from "./services/oracle-generator";
+import { drawSpread } from "./services/tarot";
+import { applyEnergyChange, awardEnergy, refreshAuraLevel, reverseEnergyAward, spendEnergy, InsufficientEnergyError, findEnergyDrift, enqueueEnergyReconciliation, registerEnergyJobHandlers } from "./services/energy-ledger";
 import { applyPositivityRanking } from "./services/ranking-engine";
-import { isModerator, isAdmin } from "./middleware/moderation-auth";
+import { getAuraProgress } from "./services/aura-progression";
+import { checkAchievements, getUserAchievements } from "./services/achievements";
+import { recordOracleDay, currentOracleStreak } from "./services/oracle-streaks";
+import { submitReport, listReports } from "./services/report-triage";
+import { listModerationQueue, claimQueueItem, releaseQueueItem, assignQueueItem } from "./services/moderation-queue";
+import { fileAppeal, listUserAppeals, listAppeals, decideAppeal } from "./services/appeals";
+import { getStrikeStanding } from "./services/strikes";
+import { reanalyzeFailedItems, getReanalysisStats } from "./services/reanalysis";
+import { isValidTimeZone, localDayKey } from "./lib/timezone";
+import { requirePermission, loadUserAccess } from "./middleware/moderation-auth";
+import { createUserAuditEntry } from "./lib/moderation-helper";
 import { validateVideoUpload } from "./middleware/content-upload";
-import type { ElementCategory } from "@shared/types";
+import { enforceRestrictions } from "./middleware/enforcement";
+import type { ElementCategory, UploadStatus } from "@shared/types";
 import { elementCategoryList } from "@shared/elements";
+import { tarotSpreads } from "@shared/tarot";
+import { energyEarningRules } from "@shared/energy-rules";
+import { reanalysisRules } from "@shared/moderation";
 import type { Request, Response, NextFunction } from "express";
 
 // ── CDN / browser caching helpers ───────────────────────────
+// Signed-in viewers also see age-restricted content, so their copies stay private
 function cdnCache(maxAgeSec: number, staleWhileRevalidateSec = 60) {
-  return (_req: Request, res: Response, next: NextFunction) => {
+  return (req: Request, res: Response, next: NextFunction) => {
     res.setHeader(
       "Cache-Control",
-      `public, max-age=${maxAgeSec}, stale-while-revalidate=${staleWhileRevalidateSec}`
+      `${req.user ? "private" : "public"}, max-age=${maxAgeSec}, stale-while-revalidate=${staleWhileRevalidateSec}`
     );
     next();
   };
@@ -33,6 +57,35 @@ const FEED_CACHE = cdnCache(300, 60);       // 5 min cache, 1 min stale-while-re
 const TRENDING_CACHE = cdnCache(600, 120);  // 10 min cache (trending updates hourly)
 const STATIC_CACHE = cdnCache(3600, 300);   // 1 hr for rarely-changing data
 
+// A first reaction earns energy by its type (subject to the spark earning rule);
+// removing the reaction takes the reward back. Changing type changes nothing.
+async function settleSparkReward(userId: string, postId: number, result: SparkToggleResult): Promise<void> {
+  if (!result.sparked) {
+    if (result.previousType) await reverseEnergyAward(userId, `spark:${postId}`, "spark removed");
+    return;
+  }
+  // Only a new reaction notifies (unless either side blocked the other) and earns
+  // energy; changing its type does not
+  if (!result.sparkType || result.previousType) return;
+
+  await recordContentEvent(postId, "post", "spark", userId);
+  checkAchievements(userId);
+
+  const { label, energyReward } = sparkTypeConfig[result.sparkType];
+  const post = await storage.getPost(postId, true);
+  if (post && !(await isBlockedEitherWay(post.authorId, userId))) {
+    await notifySpark(post.authorId, userId, postId, label);
+  }
+  await awardEnergy({
+    userId,
+    action: "spark",
+    subjectKey: `spark:${postId}`,
+    amount: energyReward,
+    description: `Sparked a post (${label})`,
+    contentOwnerId: post?.authorId,
+  });
+}
+
 export async function registerRoutes(
   httpServer: Server,
   app: Express
@@ -47,7 +100,7 @@ export async function registerRoutes(
       if (chakraFilter && !chakraTypes.includes(chakraFilter)) {
         return res.status(400).json({ message: "Invalid chakra type" });
       }
-      const posts = await storage.getPosts(50, chakraFilter);
+      const posts = await storage.getPosts(50, chakraFilter, !!req.user);
       res.json(posts);
     } catch (error) {
       console.error("Error fetching posts:", error);
@@ -57,7 +110,7 @@ export async function registerRoutes(
 
   app.get("/api/posts/:id", async (req, res) => {
     try {
-      const post = await storage.getPost(parseInt(req.params.id));
+      const post = await storage.getPost(parseInt(req.params.id), !!req.user);
       if (!post) return res.status(404).json({ message: "Post not found" });
       res.json(post);
     } catch (error) {
@@ -65,7 +118,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/posts", isAuthenticated, async (req: any, res) => {
+  app.post("/api/posts", isAuthenticated, enforceRestrictions("create_post"), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const parsed = insertPostSchema.parse({ ...req.body, authorId: userId });
@@ -80,15 +133,10 @@ export async function registerRoutes(
       const randomScore = Math.round((Math.random() * 4 + 6) * 10) / 10;
       await storage.updatePostChakra(post.id, randomChakra, randomScore);
 
-      await storage.addEnergyTransaction({
-        userId,
-        amount: 5,
-        transactionType: "earn",
-        description: "Created a new post",
-      });
-      await storage.updateEnergy(userId, 5);
+      await awardEnergy({ userId, action: "post", subjectKey: `post:${post.id}` });
+      checkAchievements(userId);
 
-      const updatedPost = await storage.getPost(post.id);
+      const updatedPost = await storage.getPost(post.id, true);
       res.status(201).json(updatedPost);
     } catch (error) {
       console.error("Error creating post:", error);
@@ -96,16 +144,16 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/posts/:id/comments", async (req, res) => {
+  app.get("/api/posts/:id/comments", async (req: any, res) => {
     try {
-      const comments = await storage.getComments(parseInt(req.params.id));
+      const comments = await storage.getComments(parseInt(req.params.id), req.user?.claims?.sub);
       res.json(comments);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch comments" });
     }
   });
 
-  app.post("/api/posts/:id/comments", isAuthenticated, async (req: any, res) => {
+  app.post("/api/posts/:id/comments", isAuthenticated, enforceRestrictions("create_comment"), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const postId = parseInt(req.params.id);
@@ -114,15 +162,36 @@ export async function registerRoutes(
         authorId: userId,
         postId,
       });
-      const comment = await storage.createComment({ postId: parsed.postId, authorId: parsed.authorId, content: parsed.content });
 
-      await storage.addEnergyTransaction({
+      let depth = 0;
+      if (parsed.parentId) {
+        const parent = await storage.getComment(parsed.parentId);
+        if (!parent || parent.postId !== postId || parent.deletedAt) {
+          return res.status(400).json({ message: "Parent comment not found on this post" });
+        }
+        if (parent.depth >= MAX_COMMENT_DEPTH) {
+          return res.status(400).json({ message: `Replies can be nested at most ${MAX_COMMENT_DEPTH} levels deep` });
+        }
+        depth = parent.depth + 1;
+      }
+
+      const comment = await storage.createComment({
+        postId: parsed.postId,
+        authorId: parsed.authorId,
+        content: parsed.content,
+        parentId: parsed.parentId,
+        depth,
+      });
+      await enqueueCommentAnalysis({ commentId: comment.id });
+      await recordContentEvent(postId, "post", "comment", userId);
+
+      const post = await storage.getPost(postId, true);
+      await awardEnergy({
         userId,
-        amount: 2,
-        transactionType: "earn",
-        description: "Commented on a post",
+        action: "comment",
+        subjectKey: `comment:${comment.id}`,
+        contentOwnerId: post?.authorId,
       });
-      await storage.updateEnergy(userId, 2);
 
       res.status(201).json(comment);
     } catch (error) {
@@ -130,25 +199,117 @@ export async function registerRoutes(
     }
   });
 
+  // PATCH /api/comments/:id - Author edits a comment (previous text kept in edit history)
+  app.patch("/api/comments/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const parsed = updateCommentSchema.parse(req.body);
+      const comment = await storage.getComment(parseInt(req.params.id));
+      if (!comment || comment.deletedAt) return res.status(404).json({ message: "Comment not found" });
+      if (comment.authorId !== userId) return res.status(403).json({ message: "Only the author can edit this comment" });
+
+      switch (await checkCommentEditable(comment.id, comment.moderationStatus)) {
+        case "rejected":
+          return res.status(409).json({ message: "Rejected comments can't be edited; appeal the decision instead" });
+        case "in_review":
+          return res.status(409).json({ message: "This comment is awaiting moderation and can't be edited yet" });
+      }
+
+      const updated = await storage.updateCommentContent(comment.id, userId, parsed.content);
+      await enqueueCommentAnalysis({ commentId: updated.id });
+
+      res.json(updated);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to edit comment" });
+    }
+  });
+
+  // DELETE /api/comments/:id - Author soft-deletes a comment (replies stay threaded)
+  app.delete("/api/comments/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const comment = await storage.getComment(parseInt(req.params.id));
+      if (!comment || comment.deletedAt) return res.status(404).json({ message: "Comment not found" });
+      if (comment.authorId !== userId) return res.status(403).json({ message: "Only the author can delete this comment" });
+
+      await storage.softDeleteComment(comment.id);
+      await reverseEnergyAward(userId, `comment:${comment.id}`, "comment deleted");
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete comment" });
+    }
+  });
+
+  // GET /api/comments/:id/edits - Edit history, newest first
+  app.get("/api/comments/:id/edits", async (req: any, res) => {
+    try {
+      const comment = await storage.getComment(parseInt(req.params.id));
+      if (!comment || comment.deletedAt) return res.status(404).json({ message: "Comment not found" });
+
+      // Same visibility as the thread: comments not yet approved (or rejected)
+      // are only shown to their author and to moderators
+      if (comment.moderationStatus !== "auto_approved") {
+        const viewerId: string | undefined = req.user?.claims?.sub;
+        const access = viewerId && viewerId !== comment.authorId ? await loadUserAccess(viewerId) : undefined;
+        const canView = viewerId === comment.authorId || !!access?.permissions.includes("moderate:read");
+        if (!canView) return res.status(404).json({ message: "Comment not found" });
+      }
+
+      const edits = await storage.getCommentEdits(comment.id);
+      res.json(edits);
+    } catch (error) {
+      console.error("Error fetching comment edits:", error);
+      res.status(500).json({ message: "Failed to fetch comment edits" });
+    }
+  });
+
+  // POST /api/posts/:id/spark - Toggle a reaction (same type removes, another type changes it)
   app.post("/api/posts/:id/spark", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const postId = parseInt(req.params.id);
-      const sparked = await storage.toggleSpark(postId, userId);
+      const parsed = sparkReactionSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid spark", errors: parsed.error.errors });
+      }
+      const result = await storage.toggleSpark(postId, userId, parsed.data.sparkType);
+      await settleSparkReward(userId, postId, result);
+      res.json(result);
+    } catch (error) {
+      console.error("Error toggling spark:", error);
+      res.status(500).json({ message: "Failed to toggle spark" });
+    }
+  });
 
-      if (sparked) {
-        await storage.addEnergyTransaction({
-          userId,
-          amount: 1,
-          transactionType: "earn",
-          description: "Sparked a post",
-        });
-        await storage.updateEnergy(userId, 1);
+  // PUT /api/posts/:id/spark - Set or change the user's reaction
+  app.put("/api/posts/:id/spark", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const postId = parseInt(req.params.id);
+      const parsed = sparkReactionSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid spark", errors: parsed.error.errors });
       }
+      const result = await storage.setSpark(postId, userId, parsed.data.sparkType);
+      await settleSparkReward(userId, postId, result);
+      res.json(result);
+    } catch (error) {
+      console.error("Error setting spark:", error);
+      res.status(500).json({ message: "Failed to set spark" });
+    }
+  });
 
-      res.json({ sparked });
+  // DELETE /api/posts/:id/spark - Remove the user's reaction
+  app.delete("/api/posts/:id/spark", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const postId = parseInt(req.params.id);
+      const result = await storage.removeSpark(postId, userId);
+      await settleSparkReward(userId, postId, result);
+      res.json(result);
     } catch (error) {
-      res.status(500).json({ message: "Failed to toggle spark" });
+      console.error("Error removing spark:", error);
+      res.status(500).json({ message: "Failed to remove spark" });
     }
   });
 
@@ -157,25 +318,42 @@ export async function registerRoutes(
       const userId = req.user.claims.sub;
       const postId = parseInt(req.params.id);
       const spark = await storage.getUserSpark(postId, userId);
-      res.json({ sparked: !!spark });
+      res.json({ sparked: !!spark, sparkType: spark?.sparkType ?? null });
     } catch (error) {
+      console.error("Error checking spark:", error);
       res.status(500).json({ message: "Failed to check spark" });
     }
   });
 
   app.get("/api/users/:id", async (req, res) => {
     try {
-      const user = await storage.getUser(req.params.id);
-      if (!user) return res.status(404).json({ message: "User not found" });
-      res.json(user);
+      // Public fields only: no email, role, energy or account status
+      const profile = await storage.getPublicProfile(req.params.id);
+      if (!profile) return res.status(404).json({ message: "User not found" });
+      const achievements = await getUserAchievements(profile.id);
+      res.json({ ...profile, achievements });
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch user" });
     }
   });
 
+  // GET /api/users/:id/aura - Aura level and progress toward the next level
+  app.get("/api/users/:id/aura", async (req, res) => {
+    try {
+      // Account age and positivity can unlock a level without new energy
+      await refreshAuraLevel(req.params.id);
+      const aura = await getAuraProgress(req.params.id);
+      if (!aura) return res.status(404).json({ message: "User not found" });
+      res.json(aura);
+    } catch (error) {
+      console.error("Error fetching aura:", error);
+      res.status(500).json({ message: "Failed to fetch aura" });
+    }
+  });
+
   app.get("/api/users/:id/posts", async (req, res) => {
     try {
-      const posts = await storage.getUserPosts(req.params.id);
+      const posts = await storage.getUserPosts(req.params.id, !!req.user);
       res.json(posts);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch user posts" });
@@ -185,13 +363,17 @@ export async function registerRoutes(
   app.patch("/api/users/me", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const { displayName, bio, dominantChakra, spiritualPath, onboardingComplete } = req.body;
+      const { displayName, bio, dominantChakra, spiritualPath, onboardingComplete, timezone } = req.body;
+      if (timezone !== undefined && (typeof timezone !== "string" || !isValidTimeZone(timezone))) {
+        return res.status(400).json({ message: "Invalid timezone" });
+      }
       const user = await storage.updateUserProfile(userId, {
         displayName,
         bio,
         dominantChakra,
         spiritualPath,
         onboardingComplete,
+        timezone,
       });
       res.json(user);
     } catch (error) {
@@ -212,48 +394,38 @@ export async function registerRoutes(
   app.post("/api/oracles/daily", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(404).json({ message: "User not found" });
 
+      // "Today" is the user's calendar day, not the server's
+      const today = localDayKey(new Date(), user.timezone);
       const latest = await storage.getLatestOracle(userId, "daily");
-      if (latest) {
-        const now = new Date();
-        const lastReading = new Date(latest.createdAt);
-        if (now.toDateString() === lastReading.toDateString()) {
-          return res.json(latest);
-        }
+      if (latest && localDayKey(new Date(latest.createdAt), user.timezone) === today) {
+        return res.json({ ...latest, streak: currentOracleStreak(user) });
       }
 
-      const user = await storage.getUser(userId);
-      const chakra = chakraTypes[Math.floor(Math.random() * chakraTypes.length)];
-
-      const readings = [
-        "The cosmic energies align in your favor today. Trust in the universal flow and let your inner light guide you through any challenges.",
-        "A profound transformation awaits. Your spiritual essence is shifting, bringing new awareness to areas of your life that need healing.",
-        "The stars whisper of hidden connections. Pay attention to synchronicities and signs from the universe — they carry messages for your soul.",
-        "Your energy field radiates with renewed strength. This is a powerful time for manifestation and setting intentions aligned with your highest good.",
-        "Ancient wisdom flows through you today. Open your heart chakra and allow compassion to guide your interactions with others.",
-        "The veil between worlds is thin. Trust your intuition and allow your third eye to reveal the deeper truths that surround you.",
-        "A cycle of abundance begins. Your crown chakra activates, connecting you with divine consciousness and infinite possibility.",
-      ];
-
-      const content = readings[Math.floor(Math.random() * readings.length)];
+      const reading = await generateDailyReading(userId, today);
 
       const oracle = await storage.createOracle({
         userId,
         readingType: "daily",
-        content,
-        chakraFocus: chakra,
+        content: reading.content,
+        chakraFocus: reading.chakraFocus,
         cards: null,
       });
 
-      await storage.addEnergyTransaction({
+      const streak = await recordOracleDay(userId, today);
+      const { baseAmount, label } = energyEarningRules.daily_oracle;
+      await awardEnergy({
         userId,
-        amount: 10,
-        transactionType: "earn",
-        description: "Received daily oracle reading",
+        action: "daily_oracle",
+        subjectKey: `daily-oracle:${today}`,
+        amount: Math.round(baseAmount * streak.multiplier),
+        description: streak.multiplier > 1 ? `${label} (${streak.current}-day streak, x${streak.multiplier})` : label,
       });
-      await storage.updateEnergy(userId, 10);
+      checkAchievements(userId);
 
-      res.json(oracle);
+      res.json({ ...oracle, streak });
     } catch (error) {
       console.error("Error generating oracle:", error);
       res.status(500).json({ message: "Failed to generate oracle reading" });
@@ -264,85 +436,172 @@ export async function registerRoutes(
     try {
       const userId = req.user.claims.sub;
 
-      const user = await storage.getUser(userId);
-      if (user && user.energyPoints < 15) {
-        return res.status(400).json({ message: "Not enough energy points for a tarot reading (requires 15)" });
-      }
-
-      const majorArcana = [
-        "The Fool", "The Magician", "The High Priestess", "The Empress",
-        "The Emperor", "The Hierophant", "The Lovers", "The Chariot",
-        "Strength", "The Hermit", "Wheel of Fortune", "Justice",
-        "The Hanged Man", "Death", "Temperance", "The Devil",
-        "The Tower", "The Star", "The Moon", "The Sun", "Judgement", "The World",
-      ];
-
-      const shuffled = [...majorArcana].sort(() => Math.random() - 0.5);
-      const drawn = shuffled.slice(0, 3).map((name) => ({
-        name,
-        reversed: Math.random() > 0.5,
-        position: "",
-      }));
-      drawn[0].position = "Past";
-      drawn[1].position = "Present";
-      drawn[2].position = "Future";
-
-      const interpretations = [
-        `Your three-card spread reveals a powerful narrative. ${drawn[0].name} ${drawn[0].reversed ? "(reversed)" : ""} in the Past position suggests old patterns releasing their hold. ${drawn[1].name} ${drawn[1].reversed ? "(reversed)" : ""} in the Present brings clarity to your current spiritual journey. ${drawn[2].name} ${drawn[2].reversed ? "(reversed)" : ""} in the Future promises transformative growth ahead.`,
-        `The cards speak of a journey through the depths of consciousness. ${drawn[0].name} ${drawn[0].reversed ? "(reversed)" : ""} reveals what has shaped your spiritual foundation. ${drawn[1].name} ${drawn[1].reversed ? "(reversed)" : ""} illuminates the energies surrounding you now. ${drawn[2].name} ${drawn[2].reversed ? "(reversed)" : ""} points toward the evolution of your soul's path.`,
-      ];
-
-      const chakra = chakraTypes[Math.floor(Math.random() * chakraTypes.length)];
-      const content = interpretations[Math.floor(Math.random() * interpretations.length)];
+      const parsed = tarotReadingSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid spread", errors: parsed.error.errors });
+      }
+      const spread = tarotSpreads[parsed.data.spread];
 
-      const oracle = await storage.createOracle({
+      // Pay first: the balance check and deduction happen atomically in the ledger
+      const requestKey = req.get("Idempotency-Key");
+      const payment = await spendEnergy(
         userId,
-        readingType: "tarot",
-        content,
-        chakraFocus: chakra,
-        cards: drawn,
-      });
+        spread.energyCost,
+        `Tarot reading (${spread.name})`,
+        requestKey ? `tarot:${requestKey}` : undefined
+      );
+      if (payment.duplicate) {
+        return res.status(409).json({ message: "This tarot reading was already requested" });
+      }
 
-      await storage.addEnergyTransaction({
-        userId,
-        amount: -15,
-        transactionType: "spend",
-        description: "Tarot reading",
-      });
-      await storage.updateEnergy(userId, -15);
+      try {
+        const drawn = drawSpread(parsed.data.spread);
+        const reading = await generateTarotReading(userId, drawn, spread.name);
 
-      res.json(oracle);
+        const oracle = await storage.createOracle({
+          userId,
+          readingType: "tarot",
+          content: reading.content,
+          chakraFocus: reading.chakraFocus,
+          cards: drawn,
+        });
+        res.json(oracle);
+      } catch (error) {
+        await applyEnergyChange({
+          userId,
+          amount: spread.energyCost,
+          transactionType: "refund",
+          description: `Refund: tarot reading (${spread.name}) failed`,
+          idempotencyKey: `refund:${payment.transaction.id}`,
+        });
+        throw error;
+      }
     } catch (error) {
+      if (error instanceof InsufficientEnergyError) {
+        return res.status(400).json({ message: `Not enough energy points for this spread (requires ${error.required})` });
+      }
       console.error("Error generating tarot:", error);
       res.status(500).json({ message: "Failed to generate tarot reading" });
     }
   });
 
+  // GET /api/oracles/tarot/spreads - Available spreads with positions and energy cost
+  app.get("/api/oracles/tarot/spreads", STATIC_CACHE, (_req, res) => {
+    res.json(tarotSpreads);
+  });
+
   app.get("/api/energy", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
+      await refreshAuraLevel(userId);
       const transactions = await storage.getEnergyTransactions(userId);
       const user = await storage.getUser(userId);
       res.json({
         balance: user?.energyPoints ?? 0,
         auraLevel: user?.auraLevel ?? 1,
+        oracleStreak: user ? currentOracleStreak(user) : null,
         transactions,
+        earningRules: energyEarningRules,
       });
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch energy data" });
     }
   });
 
+  // POST /api/reports - Report a post, video, comment or user
   app.post("/api/reports", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const report = await storage.createReport({
-        ...req.body,
-        reporterId: userId,
-      });
-      res.status(201).json(report);
+      const parsed = createReportSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid report", errors: parsed.error.errors });
+      }
+
+      const outcome = await submitReport(userId, parsed.data);
+      switch (outcome.status) {
+        case "not_found":
+          return res.status(404).json({ message: `Reported ${parsed.data.targetType} not found` });
+        case "self_report":
+          return res.status(400).json({ message: "You can't report yourself or your own content" });
+        case "duplicate":
+          return res.status(409).json({ message: "You have already reported this" });
+      }
+      res.status(201).json(outcome.report);
+    } catch (error) {
+      console.error("Error creating report:", error);
+      res.status(500).json({ message: "Failed to create report" });
+    }
+  });
+
+  // POST /api/appeals - Appeal the rejection of your own content
+  app.post("/api/appeals", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const parsed = createAppealSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid appeal", errors: parsed.error.errors });
+      }
+
+      const result = await fileAppeal(userId, parsed.data);
+      switch (result.status) {
+        case "not_found":
+          return res.status(404).json({ message: "Content not found" });
+        case "not_rejected":
+          return res.status(400).json({ message: "Only rejected content can be appealed" });
+        case "window_closed":
+          return res.status(400).json({ message: "The appeal window for this content has closed" });
+        case "already_pending":
+          return res.status(409).json({ message: "An appeal for this content is already pending" });
+        case "in_review":
+          return res.status(409).json({ message: "This content is still being reviewed; appeal once the review is decided" });
+        case "limit_reached":
+          return res.status(409).json({ message: "This content can't be appealed again" });
+        case "cooldown":
+          return res.status(429).json({ message: "Please wait before appealing again", retryAfter: result.retryAfter });
+      }
+      res.status(201).json(result.appeal);
+    } catch (error) {
+      console.error("Error filing appeal:", error);
+      res.status(500).json({ message: "Failed to file appeal" });
+    }
+  });
+
+  // GET /api/appeals - Your appeals, newest first
+  app.get("/api/appeals", isAuthenticated, async (req: any, res) => {
+    try {
+      res.json(await listUserAppeals(req.user.claims.sub));
     } catch (error) {
-      res.status(400).json({ message: "Failed to create report" });
+      console.error("Error fetching appeals:", error);
+      res.status(500).json({ message: "Failed to fetch appeals" });
+    }
+  });
+
+  // GET /api/strikes - Your active strikes and any restriction they trigger
+  app.get("/api/strikes", isAuthenticated, async (req: any, res) => {
+    try {
+      res.json(await getStrikeStanding(req.user.claims.sub));
+    } catch (error) {
+      console.error("Error fetching strikes:", error);
+      res.status(500).json({ message: "Failed to fetch strikes" });
+    }
+  });
+
+  // ============================================
+  // SEARCH ROUTES
+  // ============================================
+
+  // GET /api/search?q=&type=&element=&chakra=&from=&to=&limit= - Full-text search
+  app.get("/api/search", async (req, res) => {
+    try {
+      const parsed = searchQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid search query", errors: parsed.error.errors });
+      }
+      const { q, ...filters } = parsed.data;
+      res.json(await search(q, { ...filters, includeAgeRestricted: !!req.user }));
+    } catch (error) {
+      console.error("Error searching:", error);
+      res.status(500).json({ message: "Failed to search" });
     }
   });
 
@@ -350,19 +609,22 @@ export async function registerRoutes(
   // ELEMENT FEED ROUTES
   // ============================================
 
-  // GET /api/feed/element/:elementId - Paginated feed by element category
+  // GET /api/feed/element/:elementId - Cursor-paginated feed by element category
   app.get("/api/feed/element/:elementId", FEED_CACHE, async (req, res) => {
     try {
       const elementId = req.params.elementId as ElementCategory;
       if (!elementCategoryList.includes(elementId)) {
         return res.status(400).json({ message: "Invalid element category" });
       }
-      const limit = parseInt(req.query.limit as string) || 20;
-      const offset = parseInt(req.query.offset as string) || 0;
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+      const rawCursor = req.query.cursor as string | undefined;
+      const cursor = rawCursor ? decodeFeedCursor(rawCursor) : null;
+      if (rawCursor && !cursor) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
 
-      let items = await getFeedByElement(elementId, limit, offset);
-      items = applyPositivityRanking(items);
-      res.json(items);
+      const page = await getFeedByElement(elementId, limit, cursor, !!req.user);
+      res.json({ ...page, items: applyPositivityRanking(page.items) });
     } catch (error) {
       console.error("Error fetching element feed:", error);
       res.status(500).json({ message: "Failed to fetch feed" });
@@ -377,7 +639,7 @@ export async function registerRoutes(
         return res.status(400).json({ message: "Invalid element category" });
       }
       const limit = parseInt(req.query.limit as string) || 10;
-      const items = await getTrendingByElement(elementId, limit);
+      const items = await getTrendingByElement(elementId, limit, !!req.user);
       res.json(items);
     } catch (error) {
       console.error("Error fetching trending:", error);
@@ -431,6 +693,8 @@ export async function registerRoutes(
           and(
             eq(videos.elementCategory, elementId),
             eq(videos.uploadStatus, "Published"),
+            ne(users.accountStatus, "banned"),
+            ageRestrictionFilter(videos.ageRestricted, !!req.user),
             sql`${videos.positivityScore} >= 70`
           )
         )
@@ -465,32 +729,34 @@ export async function registerRoutes(
   // ============================================
 
   // POST /api/content/video/upload - Upload a new video
-  app.post("/api/content/video/upload", isAuthenticated, validateVideoUpload, async (req: any, res) => {
+  app.post("/api/content/video/upload", isAuthenticated, enforceRestrictions("upload_video"), validateVideoUpload, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const parsed = insertVideoSchema.parse(req.body);
 
-      // Create video record in "Under Review" status
-      const [video] = await db.insert(videos).values({
-        title: parsed.title,
-        description: parsed.description,
-        elementCategory: parsed.elementCategory,
-        videoUrl: parsed.videoUrl,
-        durationSeconds: parsed.durationSeconds,
-        createdBy: userId,
-        uploadStatus: "Under Review",
-        moderationStatus: "requires_review",
-      }).returning();
-
-      // Process asynchronously (analysis + safety + categorization)
-      processVideoUpload(video.id, parsed.title, parsed.description, parsed.videoUrl || "", userId)
-        .then(() => {
-          invalidateFeedCache();
-          console.log(`[Content] Video ${video.id} processing complete`);
-        })
-        .catch((err) => {
-          console.error(`[Content] Video ${video.id} processing error:`, err);
-        });
+      // Create the video "Under Review" together with its durable analysis job
+      // (analysis + safety + categorization)
+      const video = await db.transaction(async (tx) => {
+        const [video] = await tx.insert(videos).values({
+          title: parsed.title,
+          description: parsed.description,
+          elementCategory: parsed.elementCategory,
+          videoUrl: parsed.videoUrl,
+          durationSeconds: parsed.durationSeconds,
+          createdBy: userId,
+          uploadStatus: "Under Review",
+          moderationStatus: "requires_review",
+        }).returning();
+
+        await enqueueVideoAnalysis({
+          videoId: video.id,
+          title: parsed.title,
+          description: parsed.description,
+          videoUrl: parsed.videoUrl || "",
+          actorId: userId,
+        }, tx);
+        return video;
+      });
 
       res.status(201).json({
         id: video.id,
@@ -529,11 +795,11 @@ export async function registerRoutes(
   });
 
   // POST /api/content/:contentId/view - Track view
-  app.post("/api/content/:contentId/view", async (req, res) => {
+  app.post("/api/content/:contentId/view", async (req: any, res) => {
     try {
       const contentId = parseInt(req.params.contentId);
       const contentType = (req.body.contentType || "video") as "video" | "post";
-      await incrementViewCount(contentId, contentType);
+      await incrementViewCount(contentId, contentType, req.user?.claims?.sub);
       res.json({ success: true });
     } catch (error) {
       res.status(500).json({ message: "Failed to track view" });
@@ -553,6 +819,11 @@ export async function registerRoutes(
         contentType,
       }).returning();
 
+      publishViewingEvent("viewing_start", userId, contentId, contentType).catch((err) =>
+        console.error("[WebSocket] Failed to publish viewing start:", err)
+      );
+      if (contentType === "video") checkAchievements(userId);
+
       res.json({ sessionId: session.id });
     } catch (error) {
       res.status(500).json({ message: "Failed to start watch session" });
@@ -562,11 +833,20 @@ export async function registerRoutes(
   // POST /api/content/:contentId/watch/stop - End watch session
   app.post("/api/content/:contentId/watch/stop", isAuthenticated, async (req: any, res) => {
     try {
-      const sessionId = req.body.sessionId;
+      const userId = req.user.claims.sub;
+      const sessionId = parseInt(req.body.sessionId);
       if (sessionId) {
-        await db.update(viewSessions)
+        // Only the session owner can end it
+        const [session] = await db.update(viewSessions)
           .set({ endedAt: new Date() })
-          .where(eq(viewSessions.id, sessionId));
+          .where(and(eq(viewSessions.id, sessionId), eq(viewSessions.userId, userId), isNull(viewSessions.endedAt)))
+          .returning();
+
+        if (session) {
+          publishViewingEvent("viewing_stop", userId, session.contentId, session.contentType).catch((err) =>
+            console.error("[WebSocket] Failed to publish viewing stop:", err)
+          );
+        }
       }
       res.json({ success: true });
     } catch (error) {
@@ -575,28 +855,24 @@ export async function registerRoutes(
   });
 
   // POST /api/content/post/create - Create a new element-categorized post
-  app.post("/api/content/post/create", isAuthenticated, async (req: any, res) => {
+  app.post("/api/content/post/create", isAuthenticated, enforceRestrictions("create_post"), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const parsed = insertElementPostSchema.parse(req.body);
 
-      const [post] = await db.insert(posts).values({
-        authorId: userId,
-        content: parsed.content,
-        elementCategory: parsed.elementCategory,
-        uploadStatus: "Under Review",
-        moderationStatus: "requires_review",
-      }).returning();
-
-      // Process asynchronously
-      processPostCreation(post.id, parsed.content, userId)
-        .then(() => {
-          invalidateFeedCache();
-          console.log(`[Content] Post ${post.id} processing complete`);
-        })
-        .catch((err) => {
-          console.error(`[Content] Post ${post.id} processing error:`, err);
-        });
+      // Create the post together with its durable analysis job
+      const post = await db.transaction(async (tx) => {
+        const [post] = await tx.insert(posts).values({
+          authorId: userId,
+          content: parsed.content,
+          elementCategory: parsed.elementCategory,
+          uploadStatus: "Under Review",
+          moderationStatus: "requires_review",
+        }).returning();
+
+        await enqueuePostAnalysis({ postId: post.id, content: parsed.content, actorId: userId }, tx);
+        return post;
+      });
 
       res.status(201).json({
         id: post.id,
@@ -616,6 +892,7 @@ export async function registerRoutes(
       await db.update(posts)
         .set({ engagementScore: sql`COALESCE(${posts.engagementScore}, 0) + 1` })
         .where(eq(posts.id, postId));
+      await recordContentEvent(postId, "post", "engagement", req.user.claims.sub);
       res.json({ success: true });
     } catch (error) {
       res.status(500).json({ message: "Failed to track engagement" });
@@ -629,7 +906,7 @@ export async function registerRoutes(
   // GET /api/oracle/random - Get random published content
   app.get("/api/oracle/random", async (req, res) => {
     try {
-      const item = await getRandomPublishedContent();
+      const item = await getRandomPublishedContent(!!req.user);
       if (!item) {
         return res.status(404).json({ message: "No published content available" });
       }
@@ -644,23 +921,18 @@ export async function registerRoutes(
   // MODERATION ROUTES
   // ============================================
 
-  // GET /api/moderation/queue - Get moderation queue
-  app.get("/api/moderation/queue", isAuthenticated, isModerator, async (req: any, res) => {
+  // GET /api/moderation/queue - Queue items with content, claim and SLA state
+  app.get("/api/moderation/queue", isAuthenticated, requirePermission("moderate:read"), async (req: any, res) => {
     try {
-      const statusFilter = req.query.status || "pending";
-      const result = await db
-        .select()
-        .from(moderationQueue)
-        .where(eq(moderationQueue.status, statusFilter as any))
-        .orderBy(
-          sql`CASE ${moderationQueue.priority} 
-            WHEN 'urgent' THEN 1 
-            WHEN 'high' THEN 2 
-            WHEN 'normal' THEN 3 
-            WHEN 'low' THEN 4 
-          END`,
-          desc(moderationQueue.createdAt)
-        );
+      const parsed = moderationQueueQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid query", errors: parsed.error.errors });
+      }
+      const { assignedTo, ...options } = parsed.data;
+      const result = await listModerationQueue({
+        ...options,
+        assignedTo: assignedTo === "me" ? req.user.claims.sub : assignedTo,
+      });
 
       res.json(result);
     } catch (error) {
@@ -669,21 +941,184 @@ export async function registerRoutes(
     }
   });
 
-  // POST /api/moderation/:contentId/decide - Make moderation decision
-  app.post("/api/moderation/:contentId/decide", isAuthenticated, isModerator, async (req: any, res) => {
+  // POST /api/moderation/queue/:id/claim - Claim an item for review (renews your own claim)
+  app.post("/api/moderation/queue/:id/claim", isAuthenticated, requirePermission("moderate:decide"), async (req: any, res) => {
     try {
-      const contentId = parseInt(req.params.contentId);
-      const moderatorId = req.user.claims.sub;
-      const parsed = moderationDecisionSchema.parse(req.body);
-      const contentType = (req.body.contentType || "video") as "video" | "post";
+      const result = await claimQueueItem(parseInt(req.params.id), req.user.claims.sub);
+      switch (result.status) {
+        case "claimed":
+          return res.json(result.item);
+        case "not_found":
+          return res.status(404).json({ message: "Queue item not found" });
+        case "resolved":
+          return res.status(409).json({ message: "Queue item is already resolved" });
+        case "claimed_by_other":
+          return res.status(409).json({
+            message: "Queue item is being reviewed by another moderator",
+            claimedBy: result.claimedBy,
+            claimExpiresAt: result.claimExpiresAt,
+          });
+        case "assigned_to_other":
+          return res.status(409).json({ message: "Queue item is assigned to another moderator", assignedTo: result.assignedTo });
+      }
+    } catch (error) {
+      console.error("Error claiming queue item:", error);
+      res.status(500).json({ message: "Failed to claim queue item" });
+    }
+  });
 
-      await resolveModeration(contentId, contentType, parsed.decision, parsed.notes, moderatorId);
-      invalidateFeedCache();
+  // POST /api/moderation/queue/:id/release - Give up your claim
+  app.post("/api/moderation/queue/:id/release", isAuthenticated, requirePermission("moderate:decide"), async (req: any, res) => {
+    try {
+      const released = await releaseQueueItem(parseInt(req.params.id), req.user.claims.sub);
+      if (!released) return res.status(409).json({ message: "You don't hold a claim on this item" });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error releasing queue item:", error);
+      res.status(500).json({ message: "Failed to release queue item" });
+    }
+  });
+
+  // PUT /api/moderation/queue/:id/assignment - Assign to a moderator ({ assigneeId: null } unassigns)
+  app.put("/api/moderation/queue/:id/assignment", isAuthenticated, requirePermission("moderate:assign"), async (req: any, res) => {
+    try {
+      const parsed = assignQueueItemSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid assignment", errors: parsed.error.errors });
+      }
+      const result = await assignQueueItem(parseInt(req.params.id), parsed.data.assigneeId, req.user.claims.sub);
+      switch (result.status) {
+        case "assigned":
+          return res.json(result.item);
+        case "not_found":
+          return res.status(404).json({ message: "Queue item not found" });
+        case "resolved":
+          return res.status(409).json({ message: "Queue item is already resolved" });
+        case "invalid_assignee":
+          return res.status(400).json({ message: "Assignee must be a moderator" });
+      }
+    } catch (error) {
+      console.error("Error assigning queue item:", error);
+      res.status(500).json({ message: "Failed to assign queue item" });
+    }
+  });
+
+  // GET /api/moderation/users/:id/strikes - A user's strike standing
+  app.get("/api/moderation/users/:id/strikes", isAuthenticated, requirePermission("moderate:read"), async (req: any, res) => {
+    try {
+      res.json(await getStrikeStanding(req.params.id));
+    } catch (error) {
+      console.error("Error fetching strikes:", error);
+      res.status(500).json({ message: "Failed to fetch strikes" });
+    }
+  });
+
+  // GET /api/moderation/reports - User reports, newest first
+  app.get("/api/moderation/reports", isAuthenticated, requirePermission("moderate:read"), async (req: any, res) => {
+    try {
+      const parsed = reportListQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid query", errors: parsed.error.errors });
+      }
+      res.json(await listReports(parsed.data));
+    } catch (error) {
+      console.error("Error fetching reports:", error);
+      res.status(500).json({ message: "Failed to fetch reports" });
+    }
+  });
 
-      res.json({ success: true, message: `Content ${parsed.decision}` });
+  // GET /api/moderation/appeals?status=&limit= - Appeals, oldest first
+  app.get("/api/moderation/appeals", isAuthenticated, requirePermission("moderate:read"), async (req: any, res) => {
+    try {
+      const parsed = appealListQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid query", errors: parsed.error.errors });
+      }
+      res.json(await listAppeals(parsed.data));
+    } catch (error) {
+      console.error("Error fetching appeals:", error);
+      res.status(500).json({ message: "Failed to fetch appeals" });
+    }
+  });
+
+  // POST /api/moderation/appeals/:id/decide - Uphold or overturn an appeal
+  app.post("/api/moderation/appeals/:id/decide", isAuthenticated, requirePermission("moderate:decide"), async (req: any, res) => {
+    try {
+      const parsed = appealDecisionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid decision", errors: parsed.error.errors });
+      }
+
+      const { outcome, notes } = parsed.data;
+      const result = await decideAppeal(parseInt(req.params.id), outcome, notes, req.user.claims.sub);
+      switch (result.status) {
+        case "not_found":
+          return res.status(404).json({ message: "Appeal not found" });
+        case "already_decided":
+          return res.status(409).json({ message: "Appeal has already been decided" });
+        case "original_decider":
+          return res.status(403).json({ message: "The moderator who made the original decision can't review its appeal" });
+        case "own_appeal":
+          return res.status(403).json({ message: "You can't review your own appeal" });
+      }
+
+      if (outcome === "overturned") invalidateFeedCache();
+      res.json(result.appeal);
+    } catch (error) {
+      console.error("Error deciding appeal:", error);
+      res.status(500).json({ message: "Failed to decide appeal" });
+    }
+  });
+
+  // POST /api/moderation/queue/bulk - Approve, reject or escalate many items (by id or filter)
+  app.post("/api/moderation/queue/bulk", isAuthenticated, requirePermission("moderate:decide"), async (req: any, res) => {
+    try {
+      const parsed = bulkModerationDecisionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid bulk decision", errors: parsed.error.errors });
+      }
+
+      const { decision, notes, itemIds, filter } = parsed.data;
+      const selection = itemIds ? { itemIds } : { filter: filter! };
+      const result = await decideQueueItems(selection, decision, notes, req.user.claims.sub);
+      if (result.decided > 0) invalidateFeedCache();
+      res.json(result);
+    } catch (error) {
+      console.error("Error processing bulk moderation decision:", error);
+      res.status(500).json({ message: "Failed to process bulk moderation decision" });
+    }
+  });
+
+  // POST /api/moderation/queue/:id/decide - Decide a queue item
+  app.post("/api/moderation/queue/:id/decide", isAuthenticated, requirePermission("moderate:decide"), async (req: any, res) => {
+    try {
+      const parsed = moderationDecisionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid decision", errors: parsed.error.errors });
+      }
+
+      const { decision, notes } = parsed.data;
+      const result = await decideQueueItem(parseInt(req.params.id), decision, notes, req.user.claims.sub);
+      switch (result.status) {
+        case "not_found":
+          return res.status(404).json({ message: "Queue item not found" });
+        case "resolved":
+          return res.status(409).json({ message: "Queue item is already resolved" });
+        case "claimed_by_other":
+          return res.status(409).json({ message: "Queue item is being reviewed by another moderator", claimedBy: result.claimedBy });
+        case "assigned_to_other":
+          return res.status(409).json({ message: "Queue item is assigned to another moderator", assignedTo: result.assignedTo });
+        case "appeal_pending":
+          return res.status(409).json({ message: "This content has a pending appeal; decide the appeal instead" });
+        case "invalid_decision":
+          return res.status(400).json({ message: `"${decision}" is not available for this item` });
+      }
+
+      invalidateFeedCache();
+      res.json(result.item);
     } catch (error) {
       console.error("Error processing moderation decision:", error);
-      res.status(400).json({ message: "Failed to process moderation decision" });
+      res.status(500).json({ message: "Failed to process moderation decision" });
     }
   });
 
@@ -692,7 +1127,7 @@ export async function registerRoutes(
   // ============================================
 
   // GET /api/analytics/overview - Get platform analytics
-  app.get("/api/analytics/overview", isAuthenticated, isAdmin, async (req: any, res) => {
+  app.get("/api/analytics/overview", isAuthenticated, requirePermission("analytics:read"), async (req: any, res) => {
     try {
       const [videoCount] = await db.select({ count: count() }).from(videos);
       const [postCount] = await db.select({ count: count() }).from(posts);
@@ -733,10 +1168,11 @@ export async function registerRoutes(
   });
 
   // GET /api/admin/content - List all content with filtering
-  app.get("/api/admin/content", isAuthenticated, isAdmin, async (req: any, res) => {
+  app.get("/api/admin/content", isAuthenticated, requirePermission("content:read"), async (req: any, res) => {
     try {
-      const elementFilter = req.query.element as string | undefined;
-      const statusFilter = req.query.status as string | undefined;
+      const elementFilter = req.query.element as ElementCategory | undefined;
+      const statusFilter = req.query.status as UploadStatus | undefined;
+      const searchTerm = (req.query.q as string | undefined)?.trim();
       const limit = parseInt(req.query.limit as string) || 50;
       const offset = parseInt(req.query.offset as string) || 0;
 
@@ -756,6 +1192,13 @@ export async function registerRoutes(
         })
         .from(videos)
         .innerJoin(users, eq(videos.createdBy, users.id))
+        .where(
+          and(
+            elementFilter ? eq(videos.elementCategory, elementFilter) : undefined,
+            statusFilter ? eq(videos.uploadStatus, statusFilter) : undefined,
+            searchTerm ? sql`${videoSearchVector} @@ ${toSearchQuery(searchTerm)}` : undefined
+          )
+        )
         .orderBy(desc(videos.createdAt))
         .limit(limit)
         .offset(offset);
@@ -768,10 +1211,272 @@ export async function registerRoutes(
     }
   });
 
+  // GET /api/admin/users/:userId/access - Role and effective permissions
+  app.get("/api/admin/users/:userId/access", isAuthenticated, requirePermission("users:manage"), async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.params.userId);
+      if (!user) return res.status(404).json({ message: "User not found" });
+
+      const access = await loadUserAccess(user.id);
+      res.json({
+        userId: user.id,
+        role: access?.role ?? user.role,
+        grantedPermissions: user.permissions,
+        effectivePermissions: access?.permissions ?? [],
+        accountStatus: user.accountStatus,
+        suspendedUntil: user.suspendedUntil,
+        accountStatusReason: user.accountStatusReason,
+      });
+    } catch (error) {
+      console.error("Error fetching user access:", error);
+      res.status(500).json({ message: "Failed to fetch user access" });
+    }
+  });
+
+  // PUT /api/admin/users/:userId/role - Grant a role (user, moderator, admin)
+  app.put("/api/admin/users/:userId/role", isAuthenticated, requirePermission("users:manage"), async (req: any, res) => {
+    try {
+      const actorId = req.user.claims.sub;
+      const parsed = updateUserRoleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid role", errors: parsed.error.errors });
+      }
+      const { role } = parsed.data;
+      const user = await storage.getUser(req.params.userId);
+      if (!user) return res.status(404).json({ message: "User not found" });
+
+      if (user.id === actorId && role !== "admin") {
+        return res.status(400).json({ message: "Admins cannot demote themselves" });
+      }
+
+      const updated = await storage.updateUserRole(user.id, role);
+      await createUserAuditEntry("grant_role", actorId, user.id, {
+        previousRole: user.role,
+        role,
+      });
+
+      res.json({ userId: updated.id, role: updated.role });
+    } catch (error) {
+      console.error("Error updating user role:", error);
+      res.status(500).json({ message: "Failed to update user role" });
+    }
+  });
+
+  // POST /api/admin/users/:userId/permissions - Grant an individual permission
+  app.post("/api/admin/users/:userId/permissions", isAuthenticated, requirePermission("users:manage"), async (req: any, res) => {
+    try {
+      const actorId = req.user.claims.sub;
+      const parsed = grantPermissionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid permission", errors: parsed.error.errors });
+      }
+      const { permission } = parsed.data;
+      const user = await storage.getUser(req.params.userId);
+      if (!user) return res.status(404).json({ message: "User not found" });
+
+      const permissions = Array.from(new Set([...user.permissions, permission]));
+      const updated = await storage.updateUserPermissions(user.id, permissions);
+      await createUserAuditEntry("grant_permission", actorId, user.id, {
+        permission,
+        previousPermissions: user.permissions,
+      });
+
+      res.json({ userId: updated.id, grantedPermissions: updated.permissions });
+    } catch (error) {
+      console.error("Error granting permission:", error);
+      res.status(500).json({ message: "Failed to grant permission" });
+    }
+  });
+
+  // DELETE /api/admin/users/:userId/permissions/:permission - Revoke an individual permission
+  app.delete("/api/admin/users/:userId/permissions/:permission", isAuthenticated, requirePermission("users:manage"), async (req: any, res) => {
+    try {
+      const actorId = req.user.claims.sub;
+      const parsed = grantPermissionSchema.safeParse({ permission: req.params.permission });
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid permission", errors: parsed.error.errors });
+      }
+      const { permission } = parsed.data;
+      const user = await storage.getUser(req.params.userId);
+      if (!user) return res.status(404).json({ message: "User not found" });
+
+      const permissions = user.permissions.filter((p) => p !== permission);
+      const updated = await storage.updateUserPermissions(user.id, permissions);
+      await createUserAuditEntry("revoke_permission", actorId, user.id, {
+        permission,
+        previousPermissions: user.permissions,
+      });
+
+      res.json({ userId: updated.id, grantedPermissions: updated.permissions });
+    } catch (error) {
+      console.error("Error revoking permission:", error);
+      res.status(500).json({ message: "Failed to revoke permission" });
+    }
+  });
+
+  // POST /api/admin/users/:userId/suspend - Lock a user out for a number of hours
+  app.post("/api/admin/users/:userId/suspend", isAuthenticated, requirePermission("users:manage"), async (req: any, res) => {
+    try {
+      const actorId = req.user.claims.sub;
+      const parsed = suspendUserSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid suspension", errors: parsed.error.errors });
+      }
+      const user = await storage.getUser(req.params.userId);
+      if (!user) return res.status(404).json({ message: "User not found" });
+      if (user.id === actorId) return res.status(400).json({ message: "Admins cannot suspend themselves" });
+
+      const { reason, durationHours } = parsed.data;
+      const until = new Date(Date.now() + durationHours * 3_600_000);
+      const updated = await storage.updateAccountStatus(user.id, "suspended", reason, until);
+      await createUserAuditEntry("suspend", actorId, user.id, {
+        reason,
+        suspendedUntil: until,
+        previous: { accountStatus: user.accountStatus, suspendedUntil: user.suspendedUntil, reason: user.accountStatusReason },
+      });
+      disconnectUser(user.id);
+      // Lifting a ban by suspending instead brings the user's content back
+      if (user.accountStatus === "banned") invalidateFeedCache();
+
+      res.json({ userId: updated.id, accountStatus: updated.accountStatus, suspendedUntil: updated.suspendedUntil, reason });
+    } catch (error) {
+      console.error("Error suspending user:", error);
+      res.status(500).json({ message: "Failed to suspend user" });
+    }
+  });
+
+  // POST /api/admin/users/:userId/ban - Ban a user and hide their content
+  app.post("/api/admin/users/:userId/ban", isAuthenticated, requirePermission("users:manage"), async (req: any, res) => {
+    try {
+      const actorId = req.user.claims.sub;
+      const parsed = banUserSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid ban", errors: parsed.error.errors });
+      }
+      const user = await storage.getUser(req.params.userId);
+      if (!user) return res.status(404).json({ message: "User not found" });
+      if (user.id === actorId) return res.status(400).json({ message: "Admins cannot ban themselves" });
+
+      const { reason } = parsed.data;
+      const updated = await storage.updateAccountStatus(user.id, "banned", reason);
+      await createUserAuditEntry("ban", actorId, user.id, {
+        reason,
+        previous: { accountStatus: user.accountStatus, suspendedUntil: user.suspendedUntil, reason: user.accountStatusReason },
+      });
+      disconnectUser(user.id);
+      invalidateFeedCache();
+
+      res.json({ userId: updated.id, accountStatus: updated.accountStatus, reason });
+    } catch (error) {
+      console.error("Error banning user:", error);
+      res.status(500).json({ message: "Failed to ban user" });
+    }
+  });
+
+  // POST /api/admin/users/:userId/reinstate - Lift a suspension or ban
+  app.post("/api/admin/users/:userId/reinstate", isAuthenticated, requirePermission("users:manage"), async (req: any, res) => {
+    try {
+      const actorId = req.user.claims.sub;
+      const parsed = reinstateUserSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid reinstatement", errors: parsed.error.errors });
+      }
+      const user = await storage.getUser(req.params.userId);
+      if (!user) return res.status(404).json({ message: "User not found" });
+      if (user.accountStatus === "active") return res.status(409).json({ message: "User is not suspended or banned" });
+
+      const updated = await storage.updateAccountStatus(user.id, "active", null);
+      await createUserAuditEntry("reinstate", actorId, user.id, {
+        reason: parsed.data.reason,
+        previous: { accountStatus: user.accountStatus, suspendedUntil: user.suspendedUntil, reason: user.accountStatusReason },
+      });
+      if (user.accountStatus === "banned") invalidateFeedCache();
+
+      res.json({ userId: updated.id, accountStatus: updated.accountStatus });
+    } catch (error) {
+      console.error("Error reinstating user:", error);
+      res.status(500).json({ message: "Failed to reinstate user" });
+    }
+  });
+
+  // GET /api/admin/jobs - List background jobs (filter by status / type)
+  app.get("/api/admin/jobs", isAuthenticated, requirePermission("system:monitor"), async (req: any, res) => {
+    try {
+      const parsed = jobListQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid job filters", errors: parsed.error.errors });
+      }
+      const result = await listJobs(parsed.data);
+      res.json(result);
+    } catch (error) {
+      console.error("Error listing jobs:", error);
+      res.status(500).json({ message: "Failed to list jobs" });
+    }
+  });
+
+  // POST /api/admin/jobs/:jobId/retry - Requeue a dead or cancelled job
+  app.post("/api/admin/jobs/:jobId/retry", isAuthenticated, requirePermission("system:monitor"), async (req: any, res) => {
+    try {
+      const job = await retryJob(parseInt(req.params.jobId));
+      if (!job) return res.status(409).json({ message: "Only dead or cancelled jobs can be retried" });
+      res.json(job);
+    } catch (error) {
+      console.error("Error retrying job:", error);
+      res.status(500).json({ message: "Failed to retry job" });
+    }
+  });
+
+  // POST /api/admin/jobs/:jobId/cancel - Cancel a pending job
+  app.post("/api/admin/jobs/:jobId/cancel", isAuthenticated, requirePermission("system:monitor"), async (req: any, res) => {
+    try {
+      const job = await cancelJob(parseInt(req.params.jobId));
+      if (!job) return res.status(409).json({ message: "Only pending jobs can be cancelled" });
+      res.json(job);
+    } catch (error) {
+      console.error("Error cancelling job:", error);
+      res.status(500).json({ message: "Failed to cancel job" });
+    }
+  });
+
+  // GET /api/admin/energy/drift - Users whose stored balance differs from the ledger
+  app.get("/api/admin/energy/drift", isAuthenticated, requirePermission("users:manage"), async (_req: any, res) => {
+    try {
+      res.json(await findEnergyDrift());
+    } catch (error) {
+      console.error("Error checking energy drift:", error);
+      res.status(500).json({ message: "Failed to check energy balances" });
+    }
+  });
+
+  // POST /api/admin/energy/reconcile - Queue a reconciliation job ({ repair: true } fixes drift)
+  app.post("/api/admin/energy/reconcile", isAuthenticated, requirePermission("users:manage"), async (req: any, res) => {
+    try {
+      const parsed = energyReconcileSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid request", errors: parsed.error.errors });
+      }
+      const jobId = await enqueueEnergyReconciliation({
+        repair: parsed.data.repair,
+        requestedBy: req.user.claims.sub,
+      });
+      res.status(202).json({ jobId });
+    } catch (error) {
+      console.error("Error queueing energy reconciliation:", error);
+      res.status(500).json({ message: "Failed to queue reconciliation" });
+    }
+  });
+
+  // ============================================
+  // SOCIAL ROUTES
+  // ============================================
+
   // GET /api/social/friends/watching - Friends currently watching
   app.get("/api/social/friends/watching", isAuthenticated, async (req: any, res) => {
     try {
-      // Get active viewing sessions (started but not ended)
+      const friendIds = await getFriendIds(req.user.claims.sub);
+      if (friendIds.length === 0) return res.json([]);
+
+      // Get friends' active viewing sessions (started but not ended)
       const activeSessions = await db
         .select({
           userId: viewSessions.userId,
@@ -783,7 +1488,13 @@ export async function registerRoutes(
         })
         .from(viewSessions)
         .innerJoin(users, eq(viewSessions.userId, users.id))
-        .where(sql`${viewSessions.endedAt} IS NULL AND ${viewSessions.startedAt} > NOW() - INTERVAL '30 minutes'`)
+        .where(
+          and(
+            inArray(viewSessions.userId, friendIds),
+            sql`${viewSessions.endedAt} IS NULL AND ${viewSessions.startedAt} > NOW() - INTERVAL '30 minutes'`
+          )
+        )
+        .orderBy(desc(viewSessions.startedAt))
         .limit(20);
 
       res.json(activeSessions);
@@ -793,6 +1504,146 @@ export async function registerRoutes(
     }
   });
 
+  // POST /api/social/follow/:userId - Follow a user
+  app.post("/api/social/follow/:userId", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const targetId = req.params.userId;
+      if (targetId === userId) return res.status(400).json({ message: "You cannot follow yourself" });
+
+      const target = await storage.getUser(targetId);
+      if (!target) return res.status(404).json({ message: "User not found" });
+      if (await isBlockedEitherWay(userId, targetId)) {
+        return res.status(403).json({ message: "You cannot follow this user" });
+      }
+
+      await followUser(userId, targetId);
+      res.json(await getRelationship(userId, targetId));
+    } catch (error) {
+      console.error("Error following user:", error);
+      res.status(500).json({ message: "Failed to follow user" });
+    }
+  });
+
+  // DELETE /api/social/follow/:userId - Unfollow a user
+  app.delete("/api/social/follow/:userId", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      await unfollowUser(userId, req.params.userId);
+      res.json(await getRelationship(userId, req.params.userId));
+    } catch (error) {
+      console.error("Error unfollowing user:", error);
+      res.status(500).json({ message: "Failed to unfollow user" });
+    }
+  });
+
+  // POST /api/social/block/:userId - Block a user (also removes follows both ways)
+  app.post("/api/social/block/:userId", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const targetId = req.params.userId;
+      if (targetId === userId) return res.status(400).json({ message: "You cannot block yourself" });
+
+      const target = await storage.getUser(targetId);
+      if (!target) return res.status(404).json({ message: "User not found" });
+
+      await blockUser(userId, targetId);
+      res.json(await getRelationship(userId, targetId));
+    } catch (error) {
+      console.error("Error blocking user:", error);
+      res.status(500).json({ message: "Failed to block user" });
+    }
+  });
+
+  // DELETE /api/social/block/:userId - Unblock a user
+  app.delete("/api/social/block/:userId", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      await unblockUser(userId, req.params.userId);
+      res.json(await getRelationship(userId, req.params.userId));
+    } catch (error) {
+      console.error("Error unblocking user:", error);
+      res.status(500).json({ message: "Failed to unblock user" });
+    }
+  });
+
+  // GET /api/social/relationship/:userId - Follow / friend / block status with a user
+  app.get("/api/social/relationship/:userId", isAuthenticated, async (req: any, res) => {
+    try {
+      res.json(await getRelationship(req.user.claims.sub, req.params.userId));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch relationship" });
+    }
+  });
+
+  // GET /api/social/following | followers | friends - The current user's connections
+  app.get("/api/social/following", isAuthenticated, async (req: any, res) => {
+    try {
+      res.json(await getFollowing(req.user.claims.sub));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch following" });
+    }
+  });
+
+  app.get("/api/social/followers", isAuthenticated, async (req: any, res) => {
+    try {
+      res.json(await getFollowers(req.user.claims.sub));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch followers" });
+    }
+  });
+
+  app.get("/api/social/friends", isAuthenticated, async (req: any, res) => {
+    try {
+      res.json(await getFriends(req.user.claims.sub));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch friends" });
+    }
+  });
+
+  // ============================================
+  // NOTIFICATION ROUTES
+  // ============================================
+
+  // GET /api/notifications?unread=&before=&limit= - Newest first; page with the last id as `before`
+  app.get("/api/notifications", isAuthenticated, async (req: any, res) => {
+    try {
+      const parsed = notificationListQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid query", errors: parsed.error.errors });
+      }
+      res.json(await listNotifications(req.user.claims.sub, parsed.data));
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      res.status(500).json({ message: "Failed to fetch notifications" });
+    }
+  });
+
+  // GET /api/notifications/unread-count
+  app.get("/api/notifications/unread-count", isAuthenticated, async (req: any, res) => {
+    try {
+      res.json({ count: await getUnreadCount(req.user.claims.sub) });
+    } catch (error) {
+      console.error("Error fetching unread count:", error);
+      res.status(500).json({ message: "Failed to fetch unread count" });
+    }
+  });
+
+  // POST /api/notifications/read - Mark the given ids read, or all when ids is omitted
+  app.post("/api/notifications/read", isAuthenticated, async (req: any, res) => {
+    try {
+      const parsed = markNotificationsReadSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid request", errors: parsed.error.errors });
+      }
+      const unreadCount = await markNotificationsRead(req.user.claims.sub, parsed.data.ids);
+      res.json({ unreadCount });
+    } catch (error) {
+      console.error("Error marking notifications read:", error);
+      res.status(500).json({ message: "Failed to mark notifications read" });
+    }
+  });
+
   // ============================================
   // MONITORING: Health & Error Metrics Endpoint
   // ============================================
@@ -811,12 +1662,14 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/monitoring/errors", isAuthenticated, isAdmin, async (_req: any, res) => {
+  app.get("/api/monitoring/errors", isAuthenticated, requirePermission("system:monitor"), async (_req: any, res) => {
     try {
       const { getErrorMetrics } = await import("./lib/logging");
       const metrics = getErrorMetrics();
       res.json({
         ...metrics,
+        // Queue items re-checked after AI failures, and how many were cleared
+        reanalysis: await getReanalysisStats(),
         timestamp: new Date().toISOString(),
       });
     } catch (error) {
@@ -824,6 +1677,13 @@ export async function registerRoutes(
     }
   });
 
+  // ============================================
+  // BACKGROUND JOBS: durable content analysis queue
+  // ============================================
+  registerModerationJobHandlers();
+  registerEnergyJobHandlers();
+  startJobWorker();
+
   // ============================================
   // SCHEDULED: Trending recalculation (every 60 minutes)
   // ============================================
@@ -833,6 +1693,13 @@ export async function registerRoutes(
       .catch((err) => console.error("[Scheduled] Trending recalculation error:", err));
   }, 60 * 60 * 1000); // Every hour
 
+  // ============================================
+  // SCHEDULED: Re-analysis of items queued after AI failures
+  // ============================================
+  setInterval(() => {
+    reanalyzeFailedItems().catch((err) => console.error("[Scheduled] Re-analysis error:", err));
+  }, reanalysisRules.intervalMinutes * 60 * 1000);
+
   // Initial trending calculation on startup
   setTimeout(() => {
     calculateTrendingScores().catch((err) =>
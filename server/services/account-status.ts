@@ -0,0 +1,44 @@
+// Account Status Service
+// Suspensions and bans: whether a user is currently locked out. Feeds hide
+// banned users' content by filtering on users.accountStatus.
+import { db } from "../db";
+import { users, type User } from "@shared/models/auth";
+import { eq } from "drizzle-orm";
+
+export interface AccountBlock {
+  status: "suspended" | "banned";
+  reason: string | null;
+  // End of a suspension; null for bans
+  until: Date | null;
+}
+
+// A suspension whose end has passed no longer blocks
+export function accountBlockFor(
+  user: Pick<User, "accountStatus" | "suspendedUntil" | "accountStatusReason">
+): AccountBlock | null {
+  if (user.accountStatus === "banned") {
+    return { status: "banned", reason: user.accountStatusReason, until: null };
+  }
+  if (user.accountStatus === "suspended" && user.suspendedUntil && user.suspendedUntil > new Date()) {
+    return { status: "suspended", reason: user.accountStatusReason, until: user.suspendedUntil };
+  }
+  return null;
+}
+
+export async function getAccountBlock(userId: string): Promise<AccountBlock | null> {
+  const [user] = await db
+    .select({
+      accountStatus: users.accountStatus,
+      suspendedUntil: users.suspendedUntil,
+      accountStatusReason: users.accountStatusReason,
+    })
+    .from(users)
+    .where(eq(users.id, userId));
+  return user ? accountBlockFor(user) : null;
+}
+
+export function accountBlockMessage(block: AccountBlock): string {
+  return block.status === "banned"
+    ? "Your account has been banned"
+    : `Your account is suspended until ${block.until!.toUTCString()}`;
+}
@@ -0,0 +1,145 @@
+// Achievements Service
+// Evaluates achievement progress from existing activity (published posts, sparks,
+// oracle streaks, view sessions), stores it per user and records when each badge
+// is earned. Evaluation runs on the events that move progress; reads only return
+// what is stored. Earned badges are permanent even if the activity is later removed.
+import { db } from "../db";
+import { posts, sparks, viewSessions, userAchievements, type UserAchievement } from "@shared/schema";
+import { users } from "@shared/models/auth";
+import { eq, and, isNull, isNotNull, sql, countDistinct } from "drizzle-orm";
+import { achievementDefinitions, type AchievementCriteria } from "@shared/achievements";
+import type { AchievementProgress } from "@shared/types";
+import { createNotification } from "./notifications";
+
+// ── Metrics ─────────────────────────────────────────────────
+
+interface ActivityMetrics {
+  postsCreated: number;
+  elementsPosted: number;
+  chakraSparks: Map<string, number>;
+  longestOracleStreak: number;
+  videosWatched: number;
+}
+
+async function getActivityMetrics(userId: string): Promise<ActivityMetrics> {
+  const [[postStats], sparkRows, [streaks], [watched]] = await Promise.all([
+    db
+      .select({
+        total: sql<number>`COUNT(*)`.mapWith(Number),
+        elements: countDistinct(posts.elementCategory),
+      })
+      .from(posts)
+      .where(and(eq(posts.authorId, userId), eq(posts.uploadStatus, "Published"))),
+    db
+      .select({
+        chakra: posts.chakraType,
+        count: sql<number>`COUNT(*)`.mapWith(Number),
+      })
+      .from(sparks)
+      .innerJoin(posts, eq(sparks.postId, posts.id))
+      .where(and(eq(sparks.userId, userId), isNotNull(posts.chakraType)))
+      .groupBy(posts.chakraType),
+    // Streaks are tracked in the user's timezone by the oracle streaks service
+    db
+      .select({ longest: users.longestOracleStreak })
+      .from(users)
+      .where(eq(users.id, userId)),
+    db
+      .select({ count: countDistinct(viewSessions.contentId) })
+      .from(viewSessions)
+      .where(and(eq(viewSessions.userId, userId), eq(viewSessions.contentType, "video"))),
+  ]);
+
+  return {
+    postsCreated: postStats.total,
+    elementsPosted: postStats.elements,
+    chakraSparks: new Map(sparkRows.map((r) => [r.chakra as string, r.count])),
+    longestOracleStreak: streaks?.longest ?? 0,
+    videosWatched: watched.count,
+  };
+}
+
+function measure(criteria: AchievementCriteria, metrics: ActivityMetrics): number {
+  switch (criteria.kind) {
+    case "posts_created":
+      return metrics.postsCreated;
+    case "elements_posted":
+      return metrics.elementsPosted;
+    case "chakra_sparks":
+      return metrics.chakraSparks.get(criteria.chakra) ?? 0;
+    case "oracle_streak":
+      return metrics.longestOracleStreak;
+    case "videos_watched":
+      return metrics.videosWatched;
+  }
+}
+
+// ── Evaluation ──────────────────────────────────────────────
+
+// Recompute progress for every achievement and award the ones newly reached
+export async function evaluateAchievements(userId: string): Promise<UserAchievement[]> {
+  const metrics = await getActivityMetrics(userId);
+  const records: UserAchievement[] = [];
+
+  for (const definition of achievementDefinitions) {
+    const progress = measure(definition.criteria, metrics);
+
+    const [record] = await db
+      .insert(userAchievements)
+      .values({ userId, achievementId: definition.id, progress })
+      .onConflictDoUpdate({
+        target: [userAchievements.userId, userAchievements.achievementId],
+        set: { progress, updatedAt: new Date() },
+      })
+      .returning();
+
+    if (progress < definition.target) {
+      records.push(record);
+      continue;
+    }
+
+    // Only the first evaluation to see the target reached sets earnedAt
+    const [earned] = await db
+      .update(userAchievements)
+      .set({ earnedAt: new Date() })
+      .where(and(eq(userAchievements.id, record.id), isNull(userAchievements.earnedAt)))
+      .returning();
+
+    if (earned) {
+      console.log(`[Achievements] User ${userId} earned ${definition.id}`);
+      await createNotification({
+        userId,
+        type: "achievement_earned",
+        message: `${definition.emoji} You earned the ${definition.name} badge: ${definition.description}`,
+      });
+    }
+    records.push(earned ?? record);
+  }
+
+  return records;
+}
+
+// Run after activity that can move progress; failures are logged, never thrown
+export function checkAchievements(userId: string): void {
+  evaluateAchievements(userId).catch((error) =>
+    console.error(`[Achievements] Evaluation failed for ${userId}:`, error)
+  );
+}
+
+export async function getUserAchievements(userId: string): Promise<AchievementProgress[]> {
+  const records = await db.select().from(userAchievements).where(eq(userAchievements.userId, userId));
+  const byId = new Map(records.map((r) => [r.achievementId, r]));
+
+  return achievementDefinitions.map((definition) => {
+    const record = byId.get(definition.id);
+    return {
+      id: definition.id,
+      name: definition.name,
+      description: definition.description,
+      emoji: definition.emoji,
+      progress: Math.min(record?.progress ?? 0, definition.target),
+      target: definition.target,
+      earnedAt: record?.earnedAt?.toISOString() ?? null,
+    };
+  });
+}
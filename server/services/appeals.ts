@@ -0,0 +1,239 @@
+// Appeals Service
+// Creators appeal rejected (Flagged) content with a statement. Appeals form a
+// separate review queue; the moderator who made the original decision may not
+// review the appeal. Outcomes are written to the audit log.
+import { db } from "../db";
+import { appeals, auditLog, moderationQueue, videos, posts, comments, type Appeal } from "@shared/schema";
+import { eq, and, ne, desc, inArray } from "drizzle-orm";
+import { appealRules } from "@shared/moderation";
+import type { AppealOutcome, AppealStatus, ContentType } from "@shared/types";
+import { notifyAppealDecided } from "./notifications";
+import { applyContentDecision, notifyCommentPublished } from "./moderation-workflow";
+import { revokeContentStrikes } from "./strikes";
+import { checkAchievements } from "./achievements";
+
+const DAY_MS = 86_400_000;
+
+// Owner and rejection state of a content item, or null if it doesn't exist
+async function getContentState(
+  contentType: ContentType,
+  contentId: number
+): Promise<{ ownerId: string; rejected: boolean } | null> {
+  if (contentType === "video") {
+    const [video] = await db
+      .select({ ownerId: videos.createdBy, uploadStatus: videos.uploadStatus })
+      .from(videos)
+      .where(eq(videos.id, contentId));
+    return video ? { ownerId: video.ownerId, rejected: video.uploadStatus === "Flagged" } : null;
+  }
+  if (contentType === "post") {
+    const [post] = await db
+      .select({ ownerId: posts.authorId, uploadStatus: posts.uploadStatus })
+      .from(posts)
+      .where(eq(posts.id, contentId));
+    return post ? { ownerId: post.ownerId, rejected: post.uploadStatus === "Flagged" } : null;
+  }
+  const [comment] = await db
+    .select({ ownerId: comments.authorId, moderationStatus: comments.moderationStatus })
+    .from(comments)
+    .where(eq(comments.id, contentId));
+  return comment ? { ownerId: comment.ownerId, rejected: comment.moderationStatus === "rejected" } : null;
+}
+
+// The audit entry that rejected the content: "reject" is a moderator's
+// decision, "moderate" the automated analysis
+async function findRejection(
+  contentType: ContentType,
+  contentId: number
+): Promise<{ deciderId: string | null; at: Date } | null> {
+  const [entry] = await db
+    .select({ action: auditLog.action, actorId: auditLog.actorId, at: auditLog.timestamp })
+    .from(auditLog)
+    .where(
+      and(
+        eq(auditLog.contentType, contentType),
+        eq(auditLog.contentId, contentId),
+        inArray(auditLog.action, ["reject", "moderate"])
+      )
+    )
+    .orderBy(desc(auditLog.timestamp))
+    .limit(1);
+  if (!entry) return null;
+  return { deciderId: entry.action === "reject" ? entry.actorId : null, at: entry.at };
+}
+
+// Whether the content is waiting in the moderation queue
+async function hasOpenQueueItem(contentType: ContentType, contentId: number): Promise<boolean> {
+  const [open] = await db
+    .select({ id: moderationQueue.id })
+    .from(moderationQueue)
+    .where(
+      and(
+        eq(moderationQueue.contentType, contentType),
+        eq(moderationQueue.contentId, contentId),
+        ne(moderationQueue.status, "resolved")
+      )
+    )
+    .limit(1);
+  return !!open;
+}
+
+// ── Filing ──────────────────────────────────────────────────
+
+export interface AppealInput {
+  contentType: ContentType;
+  contentId: number;
+  statement: string;
+}
+
+export type FileAppealResult =
+  | { status: "filed"; appeal: Appeal }
+  | { status: "not_found" | "not_rejected" | "in_review" | "already_pending" | "window_closed" | "limit_reached" }
+  | { status: "cooldown"; retryAfter: Date };
+
+export async function fileAppeal(appellantId: string, input: AppealInput): Promise<FileAppealResult> {
+  const content = await getContentState(input.contentType, input.contentId);
+  // Other people's content looks the same as missing content
+  if (!content || content.ownerId !== appellantId) return { status: "not_found" };
+  if (!content.rejected) return { status: "not_rejected" };
+  // A moderator is still deciding (e.g. a new report); appeal that decision instead
+  if (await hasOpenQueueItem(input.contentType, input.contentId)) return { status: "in_review" };
+
+  const rejection = await findRejection(input.contentType, input.contentId);
+  if (rejection && Date.now() - rejection.at.getTime() > appealRules.windowDays * DAY_MS) {
+    return { status: "window_closed" };
+  }
+
+  const previous = await db
+    .select({ status: appeals.status, decidedAt: appeals.decidedAt })
+    .from(appeals)
+    .where(and(eq(appeals.contentType, input.contentType), eq(appeals.contentId, input.contentId)))
+    .orderBy(desc(appeals.createdAt));
+
+  if (previous.some((a) => a.status === "pending")) return { status: "already_pending" };
+  if (previous.length >= appealRules.maxPerContent) return { status: "limit_reached" };
+
+  const lastDecided = previous.find((a) => a.decidedAt)?.decidedAt;
+  if (lastDecided) {
+    const retryAfter = new Date(lastDecided.getTime() + appealRules.cooldownDays * DAY_MS);
+    if (retryAfter > new Date()) return { status: "cooldown", retryAfter };
+  }
+
+  // The partial unique index catches a concurrent second filing
+  const [appeal] = await db
+    .insert(appeals)
+    .values({
+      appellantId,
+      contentType: input.contentType,
+      contentId: input.contentId,
+      statement: input.statement,
+      originalDeciderId: rejection?.deciderId ?? null,
+    })
+    .onConflictDoNothing()
+    .returning();
+  if (!appeal) return { status: "already_pending" };
+
+  console.log(`[Appeals] Appeal ${appeal.id} filed on ${input.contentType} ${input.contentId}`);
+  return { status: "filed", appeal };
+}
+
+export async function listUserAppeals(userId: string): Promise<Appeal[]> {
+  return await db
+    .select()
+    .from(appeals)
+    .where(eq(appeals.appellantId, userId))
+    .orderBy(desc(appeals.createdAt));
+}
+
+// ── Review ──────────────────────────────────────────────────
+
+// Oldest first, so appeals are reviewed in the order they were filed
+export async function listAppeals(
+  options: { status: AppealStatus; limit?: number }
+): Promise<Appeal[]> {
+  return await db
+    .select()
+    .from(appeals)
+    .where(eq(appeals.status, options.status))
+    .orderBy(appeals.createdAt)
+    .limit(options.limit ?? 100);
+}
+
+export type DecideAppealResult =
+  | { status: "decided"; appeal: Appeal }
+  | { status: "not_found" | "already_decided" | "original_decider" | "own_appeal" };
+
+export async function decideAppeal(
+  appealId: number,
+  outcome: AppealOutcome,
+  notes: string | undefined,
+  reviewerId: string
+): Promise<DecideAppealResult> {
+  const result = await db.transaction(async (tx): Promise<DecideAppealResult> => {
+    const [appeal] = await tx.select().from(appeals).where(eq(appeals.id, appealId)).for("update");
+    if (!appeal) return { status: "not_found" };
+    if (appeal.status !== "pending") return { status: "already_decided" };
+    // A second pair of eyes: never the moderator who rejected it
+    if (appeal.originalDeciderId === reviewerId) return { status: "original_decider" };
+    if (appeal.appellantId === reviewerId) return { status: "own_appeal" };
+
+    const [decided] = await tx
+      .update(appeals)
+      .set({ status: outcome, reviewerId, reviewerNotes: notes, decidedAt: new Date() })
+      .where(eq(appeals.id, appealId))
+      .returning();
+
+    // Overturning restores the content as if a moderator had approved it
+    // and withdraws the strike the rejection earned
+    let previous: Record<string, unknown> = {};
+    let strikesRevoked = 0;
+    if (outcome === "overturned") {
+      ({ previous } = await applyContentDecision(tx, appeal, "approved", notes, reviewerId));
+      strikesRevoked = await revokeContentStrikes(tx, appeal.contentType, appeal.contentId);
+    }
+
+    // The appeal is the final word on the content, so a queue item that
+    // opened while it was pending is closed with it
+    const closedQueueItems = await tx
+      .update(moderationQueue)
+      .set({ status: "resolved", resolvedAt: new Date(), claimExpiresAt: null })
+      .where(
+        and(
+          eq(moderationQueue.contentType, appeal.contentType),
+          eq(moderationQueue.contentId, appeal.contentId),
+          ne(moderationQueue.status, "resolved")
+        )
+      )
+      .returning({ id: moderationQueue.id });
+
+    await tx.insert(auditLog).values({
+      action: outcome === "overturned" ? "appeal_overturned" : "appeal_upheld",
+      actorId: reviewerId,
+      contentId: appeal.contentId,
+      contentType: appeal.contentType,
+      targetUserId: appeal.appellantId,
+      changes: {
+        appealId,
+        outcome,
+        notes,
+        statement: appeal.statement,
+        originalDeciderId: appeal.originalDeciderId,
+        strikesRevoked,
+        closedQueueItemIds: closedQueueItems.map((q) => q.id),
+        previous,
+      },
+    });
+
+    return { status: "decided", appeal: decided };
+  });
+
+  if (result.status === "decided") {
+    const { appeal } = result;
+    await notifyAppealDecided(appeal.appellantId, appeal.contentId, appeal.contentType, outcome, notes);
+    if (outcome === "overturned" && appeal.contentType === "comment") {
+      await notifyCommentPublished(appeal.contentId);
+    }
+    if (outcome === "overturned" && appeal.contentType === "post") checkAchievements(appeal.appellantId);
+  }
+  return result;
+}
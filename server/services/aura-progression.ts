@@ -0,0 +1,114 @@
+// Aura Progression Service
+// Computes aura level from lifetime earned energy, the positivity of authored
+// content and account age. Read-only: the energy ledger's refreshAuraLevel
+// persists level-ups (and pays their one-time reward).
+import { db } from "../db";
+import { energyTransactions, posts, videos } from "@shared/schema";
+import { users } from "@shared/models/auth";
+import { eq, and, inArray, isNotNull, sql } from "drizzle-orm";
+import { auraLevels, getAuraLevelConfig, type AuraLevelConfig } from "@shared/aura";
+import type { AuraProgress, AuraStats } from "@shared/types";
+
+export async function getAuraStats(userId: string): Promise<AuraStats | null> {
+  const [user] = await db
+    .select({ createdAt: users.createdAt })
+    .from(users)
+    .where(eq(users.id, userId));
+  if (!user) return null;
+
+  const [[energy], [postScores], [videoScores]] = await Promise.all([
+    db
+      .select({ total: sql<number>`COALESCE(SUM(${energyTransactions.amount}), 0)`.mapWith(Number) })
+      .from(energyTransactions)
+      .where(
+        and(
+          eq(energyTransactions.userId, userId),
+          inArray(energyTransactions.transactionType, ["earn", "reversal"])
+        )
+      ),
+    db
+      .select({
+        sum: sql<number>`COALESCE(SUM(${posts.positivityScore}), 0)`.mapWith(Number),
+        count: sql<number>`COUNT(${posts.positivityScore})`.mapWith(Number),
+      })
+      .from(posts)
+      .where(and(eq(posts.authorId, userId), isNotNull(posts.positivityScore))),
+    db
+      .select({
+        sum: sql<number>`COALESCE(SUM(${videos.positivityScore}), 0)`.mapWith(Number),
+        count: sql<number>`COUNT(${videos.positivityScore})`.mapWith(Number),
+      })
+      .from(videos)
+      .where(and(eq(videos.createdBy, userId), isNotNull(videos.positivityScore))),
+  ]);
+
+  const scored = postScores.count + videoScores.count;
+  const createdAt = user.createdAt ?? new Date();
+
+  return {
+    lifetimeEnergy: energy.total,
+    averagePositivity: scored > 0 ? Math.round((postScores.sum + videoScores.sum) / scored) : null,
+    accountAgeDays: Math.floor((Date.now() - createdAt.getTime()) / 86_400_000),
+  };
+}
+
+function meetsLevel(stats: AuraStats, config: AuraLevelConfig): boolean {
+  return (
+    stats.lifetimeEnergy >= config.minLifetimeEnergy &&
+    (config.minPositivity === 0 || (stats.averagePositivity ?? 0) >= config.minPositivity) &&
+    stats.accountAgeDays >= config.minAccountDays
+  );
+}
+
+// Highest level whose requirements (and every lower level's) are met
+export function computeAuraLevel(stats: AuraStats): number {
+  let level = auraLevels[0].level;
+  for (const config of auraLevels) {
+    if (!meetsLevel(stats, config)) break;
+    level = config.level;
+  }
+  return level;
+}
+
+export async function getAuraProgress(userId: string): Promise<AuraProgress | null> {
+  const [user] = await db
+    .select({ auraLevel: users.auraLevel })
+    .from(users)
+    .where(eq(users.id, userId));
+  const stats = await getAuraStats(userId);
+  if (!user || !stats) return null;
+
+  const current = getAuraLevelConfig(user.auraLevel);
+  const next = auraLevels.find((l) => l.level === current.level + 1) ?? null;
+
+  const fraction = (value: number, target: number) => (target <= 0 ? 1 : Math.min(1, value / target));
+  const progress = next
+    ? {
+        lifetimeEnergy: fraction(stats.lifetimeEnergy, next.minLifetimeEnergy),
+        averagePositivity: fraction(stats.averagePositivity ?? 0, next.minPositivity),
+        accountAgeDays: fraction(stats.accountAgeDays, next.minAccountDays),
+      }
+    : null;
+
+  return {
+    userId,
+    level: current.level,
+    name: current.name,
+    stats,
+    nextLevel: next
+      ? {
+          level: next.level,
+          name: next.name,
+          requirements: {
+            lifetimeEnergy: next.minLifetimeEnergy,
+            averagePositivity: next.minPositivity,
+            accountAgeDays: next.minAccountDays,
+          },
+        }
+      : null,
+    // Every requirement must be met, so overall progress is the weakest one
+    progress: progress
+      ? { ...progress, overall: Math.min(progress.lifetimeEnergy, progress.averagePositivity, progress.accountAgeDays) }
+      : null,
+  };
+}
@@ -0,0 +1,33 @@
+// Content Events Service
+// Append-only log of views and engagement used for rolling-window trending
+import { db } from "../db";
+import { contentEvents } from "@shared/schema";
+import { sql } from "drizzle-orm";
+import type { ContentType, ContentEventType } from "@shared/types";
+
+// Events older than this are no longer needed by any trending window
+const EVENT_RETENTION_DAYS = 30;
+
+export async function recordContentEvent(
+  contentId: number,
+  contentType: ContentType,
+  eventType: ContentEventType,
+  userId?: string | null
+): Promise<void> {
+  await db.insert(contentEvents).values({
+    contentId,
+    contentType,
+    eventType,
+    userId: userId ?? null,
+  });
+}
+
+export async function pruneContentEvents(
+  retentionDays = EVENT_RETENTION_DAYS
+): Promise<number> {
+  const deleted = await db
+    .delete(contentEvents)
+    .where(sql`${contentEvents.createdAt} < NOW() - make_interval(days => ${retentionDays})`)
+    .returning({ id: contentEvents.id });
+  return deleted.length;
+}
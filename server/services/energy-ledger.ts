@@ -0,0 +1,402 @@
+// Energy Ledger Service
+// The only way energy balances change. Each change writes a ledger entry and
+// updates users.energyPoints in one DB transaction with the user row locked,
+// so balances never go negative and never drift from the ledger.
+import { db } from "../db";
+import { energyTransactions, type EnergyTransaction } from "@shared/schema";
+import { users, STARTING_ENERGY } from "@shared/models/auth";
+import { eq, and, gt, desc, sql } from "drizzle-orm";
+import type { EnergyTransactionType, EarningAction } from "@shared/types";
+import { energyEarningRules, diminishedAmount } from "@shared/energy-rules";
+import { createUserAuditEntry } from "../lib/moderation-helper";
+import { registerJobHandler, enqueueJob } from "./job-queue";
+import { auraLevels } from "@shared/aura";
+import { getAuraStats, computeAuraLevel } from "./aura-progression";
+
+export class InsufficientEnergyError extends Error {
+  constructor(public balance: number, public required: number) {
+    super(`Not enough energy (balance ${balance}, requires ${required})`);
+    this.name = "InsufficientEnergyError";
+    Object.setPrototypeOf(this, InsufficientEnergyError.prototype);
+  }
+}
+
+export interface LedgerEntryInput {
+  userId: string;
+  amount: number;
+  transactionType: EnergyTransactionType;
+  description?: string;
+  idempotencyKey?: string;
+}
+
+export interface LedgerResult {
+  transaction: EnergyTransaction;
+  balance: number;
+  // True when the idempotency key was already used and nothing was applied
+  duplicate: boolean;
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Lock the user row first so concurrent changes (and retries of the same key) serialize
+async function lockBalance(tx: Transaction, userId: string): Promise<number> {
+  const [user] = await tx
+    .select({ energyPoints: users.energyPoints })
+    .from(users)
+    .where(eq(users.id, userId))
+    .for("update");
+  if (!user) throw new Error(`User ${userId} not found`);
+  return user.energyPoints;
+}
+
+async function setBalance(tx: Transaction, userId: string, balance: number): Promise<void> {
+  await tx.update(users).set({ energyPoints: balance }).where(eq(users.id, userId));
+}
+
+export async function applyEnergyChange(input: LedgerEntryInput): Promise<LedgerResult> {
+  return await db.transaction(async (tx) => {
+    const current = await lockBalance(tx, input.userId);
+
+    if (input.idempotencyKey) {
+      const [existing] = await tx
+        .select()
+        .from(energyTransactions)
+        .where(
+          and(
+            eq(energyTransactions.userId, input.userId),
+            eq(energyTransactions.idempotencyKey, input.idempotencyKey)
+          )
+        );
+      if (existing) {
+        return { transaction: existing, balance: current, duplicate: true };
+      }
+    }
+
+    const balance = current + input.amount;
+    if (balance < 0) {
+      throw new InsufficientEnergyError(current, -input.amount);
+    }
+
+    const [transaction] = await tx.insert(energyTransactions).values({
+      userId: input.userId,
+      amount: input.amount,
+      transactionType: input.transactionType,
+      description: input.description,
+      idempotencyKey: input.idempotencyKey,
+      balanceAfter: balance,
+    }).returning();
+
+    await setBalance(tx, input.userId, balance);
+    return { transaction, balance, duplicate: false };
+  });
+}
+
+// Throws InsufficientEnergyError instead of letting the balance go negative
+export async function spendEnergy(
+  userId: string,
+  amount: number,
+  description: string,
+  idempotencyKey?: string
+): Promise<LedgerResult> {
+  return applyEnergyChange({ userId, amount: -amount, transactionType: "spend", description, idempotencyKey });
+}
+
+// ── Earning rules ───────────────────────────────────────────
+
+export type AwardOutcome = "rewarded" | "diminished" | "already_rewarded" | "own_content" | "daily_cap" | "cooldown";
+
+export interface AwardInput {
+  userId: string;
+  action: EarningAction;
+  // What the reward is for, e.g. "spark:42"; one active reward per subject
+  subjectKey: string;
+  // Overrides the rule's base amount (sparks pay by reaction type)
+  amount?: number;
+  description?: string;
+  // Owner of the content acted on, for the no-self-reward rule
+  contentOwnerId?: string | null;
+}
+
+export interface AwardResult {
+  outcome: AwardOutcome;
+  amount: number;
+  balance: number;
+  transaction: EnergyTransaction | null;
+}
+
+// Energy already taken back from an award by (possibly partial) reversals
+const reversedAmount = sql<number>`COALESCE((
+  SELECT -SUM(r.amount) FROM energy_transactions r WHERE r.reversal_of = ${energyTransactions.id}
+), 0)`.mapWith(Number);
+
+// Most recent reward for a subject that has not been fully reversed, with
+// how much of it is still outstanding
+async function findActiveAward(
+  tx: Transaction,
+  userId: string,
+  subjectKey: string
+): Promise<(EnergyTransaction & { outstanding: number }) | undefined> {
+  const [row] = await tx
+    .select({ award: energyTransactions, reversed: reversedAmount })
+    .from(energyTransactions)
+    .where(
+      and(
+        eq(energyTransactions.userId, userId),
+        eq(energyTransactions.subjectKey, subjectKey),
+        eq(energyTransactions.transactionType, "earn"),
+        gt(energyTransactions.amount, 0),
+        sql`${reversedAmount} < ${energyTransactions.amount}`
+      )
+    )
+    .orderBy(desc(energyTransactions.id))
+    .limit(1);
+  return row && { ...row.award, outstanding: row.award.amount - row.reversed };
+}
+
+// Evaluate the action's earning rule and record the outcome. Blocked rewards are
+// still written as zero-amount entries so users can see why nothing was earned.
+export async function awardEnergy(input: AwardInput): Promise<AwardResult> {
+  const rule = energyEarningRules[input.action];
+  const baseAmount = input.amount ?? rule.baseAmount;
+  const description = input.description ?? rule.label;
+
+  const result = await db.transaction(async (tx): Promise<AwardResult> => {
+    const balance = await lockBalance(tx, input.userId);
+
+    if (await findActiveAward(tx, input.userId, input.subjectKey)) {
+      return { outcome: "already_rewarded", amount: 0, balance, transaction: null };
+    }
+
+    const recordOutcome = async (outcome: AwardOutcome, amount: number, note: string): Promise<AwardResult> => {
+      const [transaction] = await tx.insert(energyTransactions).values({
+        userId: input.userId,
+        amount,
+        transactionType: "earn",
+        description: `${description} (${note})`,
+        balanceAfter: balance + amount,
+        action: input.action,
+        subjectKey: input.subjectKey,
+      }).returning();
+      if (amount !== 0) await setBalance(tx, input.userId, balance + amount);
+      return { outcome, amount, balance: balance + amount, transaction };
+    };
+
+    if (rule.noSelfReward && input.contentOwnerId === input.userId) {
+      return recordOutcome("own_content", 0, "no reward: your own content");
+    }
+
+    // Caps reset at midnight in the user's own timezone
+    const [{ timezone }] = await tx
+      .select({ timezone: users.timezone })
+      .from(users)
+      .where(eq(users.id, input.userId));
+    const startOfDay = sql`(date_trunc('day', NOW() AT TIME ZONE ${timezone}) AT TIME ZONE ${timezone})`;
+
+    const rewardedToday = await tx
+      .select({
+        ageSeconds: sql<number>`EXTRACT(EPOCH FROM (NOW() - ${energyTransactions.createdAt}))`.mapWith(Number),
+      })
+      .from(energyTransactions)
+      .where(
+        and(
+          eq(energyTransactions.userId, input.userId),
+          eq(energyTransactions.action, input.action),
+          eq(energyTransactions.transactionType, "earn"),
+          gt(energyTransactions.amount, 0),
+          sql`${energyTransactions.createdAt} >= ${startOfDay}`
+        )
+      )
+      .orderBy(desc(energyTransactions.createdAt));
+
+    if (rewardedToday.length >= rule.dailyCap) {
+      return recordOutcome("daily_cap", 0, `no reward: daily limit of ${rule.dailyCap} reached`);
+    }
+
+    const last = rewardedToday[0];
+    if (last && last.ageSeconds < rule.cooldownSeconds) {
+      return recordOutcome("cooldown", 0, `no reward: ${rule.cooldownSeconds}s cooldown`);
+    }
+
+    const amount = diminishedAmount(rule, baseAmount, rewardedToday.length);
+    return amount < baseAmount
+      ? recordOutcome("diminished", amount, `+${amount}, reduced after ${rule.diminishing!.fullRewards} today`)
+      : recordOutcome("rewarded", amount, `+${amount}`);
+  });
+
+  // Earned energy feeds aura progression; a failed refresh must not undo the award
+  if (result.amount > 0) {
+    await refreshAuraLevel(input.userId).catch((error) =>
+      console.error("[Energy] Aura refresh failed:", error)
+    );
+  }
+  return result;
+}
+
+// Recompute and persist the level, paying the reward for every level gained.
+// Runs after energy is earned and whenever a level is read, since account age
+// and positivity scores can also unlock a level. Returns the new level, if any.
+export async function refreshAuraLevel(userId: string): Promise<number | null> {
+  const stats = await getAuraStats(userId);
+  if (!stats) return null;
+
+  const computed = computeAuraLevel(stats);
+  const [promoted] = await db
+    .update(users)
+    .set({ auraLevel: computed, updatedAt: new Date() })
+    .where(and(eq(users.id, userId), sql`${users.auraLevel} < ${computed}`))
+    .returning({ id: users.id });
+
+  if (promoted) {
+    for (const config of auraLevels) {
+      if (config.level <= 1 || config.level > computed || config.levelUpReward === 0) continue;
+      // Keyed per level, so a level is only ever rewarded once
+      await applyEnergyChange({
+        userId,
+        amount: config.levelUpReward,
+        transactionType: "level_up",
+        description: `Aura level up: ${config.name} (level ${config.level})`,
+        idempotencyKey: `aura-level:${config.level}`,
+      });
+    }
+    console.log(`[Aura] User ${userId} reached level ${computed}`);
+  }
+
+  return promoted ? computed : null;
+}
+
+// Take back the active reward for a subject (un-spark, deleted comment). Only what
+// is left of the balance is taken, so a reversal never drives it negative; a
+// partly reversed award stays active, so it can't be earned again and the next
+// reversal recovers the rest.
+export async function reverseEnergyAward(
+  userId: string,
+  subjectKey: string,
+  reason: string
+): Promise<LedgerResult | null> {
+  return await db.transaction(async (tx) => {
+    const balance = await lockBalance(tx, userId);
+    const award = await findActiveAward(tx, userId, subjectKey);
+    if (!award || !award.action || !energyEarningRules[award.action].reversible) return null;
+
+    const amount = Math.min(award.outstanding, balance);
+    if (amount === 0) return null;
+    const partial = amount < award.amount ? `, ${amount} of ${award.amount} recovered` : "";
+    const [transaction] = await tx.insert(energyTransactions).values({
+      userId,
+      amount: -amount,
+      transactionType: "reversal",
+      description: `Reversed: ${award.description} (${reason}${partial})`,
+      balanceAfter: balance - amount,
+      action: award.action,
+      subjectKey,
+      reversalOf: award.id,
+    }).returning();
+
+    await setBalance(tx, userId, balance - amount);
+    return { transaction, balance: balance - amount, duplicate: false };
+  });
+}
+
+// ── Reconciliation ──────────────────────────────────────────
+
+export interface EnergyDrift {
+  userId: string;
+  storedBalance: number;
+  ledgerSum: number;
+  expectedBalance: number;
+}
+
+export async function findEnergyDrift(): Promise<EnergyDrift[]> {
+  const ledgerSum = sql<number>`COALESCE(SUM(${energyTransactions.amount}), 0)`.mapWith(Number);
+
+  const rows = await db
+    .select({
+      userId: users.id,
+      storedBalance: users.energyPoints,
+      ledgerSum,
+    })
+    .from(users)
+    .leftJoin(energyTransactions, eq(energyTransactions.userId, users.id))
+    .groupBy(users.id)
+    .having(sql`${users.energyPoints} <> ${STARTING_ENERGY} + COALESCE(SUM(${energyTransactions.amount}), 0)`);
+
+  return rows.map((r) => ({ ...r, expectedBalance: STARTING_ENERGY + r.ledgerSum }));
+}
+
+// Reset the stored balance to what the ledger says. A ledger that sums below
+// zero gets an adjustment entry so the repaired balance is 0, not negative.
+async function repairUserBalance(userId: string, actorId: string | null): Promise<EnergyDrift | null> {
+  const drift = await db.transaction(async (tx) => {
+    const [user] = await tx
+      .select({ energyPoints: users.energyPoints })
+      .from(users)
+      .where(eq(users.id, userId))
+      .for("update");
+    if (!user) return null;
+
+    const [{ sum }] = await tx
+      .select({ sum: sql<number>`COALESCE(SUM(${energyTransactions.amount}), 0)`.mapWith(Number) })
+      .from(energyTransactions)
+      .where(eq(energyTransactions.userId, userId));
+
+    const expected = STARTING_ENERGY + sum;
+    if (expected === user.energyPoints) return null;
+
+    const repaired = Math.max(0, expected);
+    if (expected < 0) {
+      await tx.insert(energyTransactions).values({
+        userId,
+        amount: -expected,
+        transactionType: "adjustment",
+        description: "Reconciliation: cleared negative ledger balance",
+        balanceAfter: repaired,
+      });
+    }
+
+    await tx.update(users).set({ energyPoints: repaired }).where(eq(users.id, userId));
+    return { userId, storedBalance: user.energyPoints, ledgerSum: sum, expectedBalance: repaired };
+  });
+
+  if (drift) {
+    await createUserAuditEntry("reconcile_energy", actorId, userId, {
+      before: drift.storedBalance,
+      after: drift.expectedBalance,
+      ledgerSum: drift.ledgerSum,
+    });
+  }
+  return drift;
+}
+
+export async function reconcileEnergyBalances(
+  options: { repair?: boolean; actorId?: string | null } = {}
+): Promise<{ drifted: EnergyDrift[]; repaired: number }> {
+  const drifted = await findEnergyDrift();
+  let repaired = 0;
+
+  if (options.repair) {
+    for (const drift of drifted) {
+      if (await repairUserBalance(drift.userId, options.actorId ?? null)) repaired++;
+    }
+  }
+
+  console.log(`[Energy] Reconciliation found ${drifted.length} drifted balances, repaired ${repaired}`);
+  return { drifted, repaired };
+}
+
+interface ReconcilePayload {
+  repair: boolean;
+  requestedBy: string | null;
+}
+
+export async function enqueueEnergyReconciliation(payload: ReconcilePayload): Promise<number> {
+  const job = await enqueueJob("reconcile_energy", { ...payload }, { maxAttempts: 3 });
+  return job.id;
+}
+
+export function registerEnergyJobHandlers(): void {
+  registerJobHandler<ReconcilePayload>("reconcile_energy", {
+    run: async (p) => {
+      await reconcileEnergyBalances({ repair: p.repair, actorId: p.requestedBy });
+    },
+  });
+}
@@ -2,9 +2,10 @@
 import { db } from "../db";
 import { videos, posts, contentTrending, userRecommendations } from "@shared/schema";
 import { users } from "@shared/models/auth";
-import { eq, and, desc, sql, gt, asc } from "drizzle-orm";
+import { eq, and, ne, desc, sql, gt, asc, type Column, type SQL } from "drizzle-orm";
 import type { ElementCategory, ContentType } from "@shared/types";
-import type { FeedItem, TrendingItem } from "@shared/types";
+import type { FeedItem, FeedPage, TrendingItem } from "@shared/types";
+import { recordContentEvent } from "./content-events";
 
 // Simple in-memory cache for feed queries
 const feedCache = new Map<string, { data: any; expiresAt: number }>();
@@ -23,14 +24,71 @@ function setCache(key: string, data: any): void {
   feedCache.set(key, { data, expiresAt: Date.now() + CACHE_TTL });
 }
 
+// ── Cursor pagination ───────────────────────────────────────
+// Feed order is createdAt desc, then type desc ("video" before "post"), then id desc.
+// sortKey is the createdAt timestamp at full (microsecond) precision so cursors
+// never skip or repeat rows created within the same millisecond.
+
+interface FeedCursor {
+  sortKey: string;
+  type: ContentType;
+  id: number;
+}
+
+type FeedRow = FeedItem & { sortKey: string };
+
+const SORT_KEY_FORMAT = `YYYY-MM-DD"T"HH24:MI:SS.US`;
+
+export function encodeFeedCursor(cursor: FeedCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+export function decodeFeedCursor(raw: string): FeedCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    if (
+      typeof parsed?.sortKey !== "string" ||
+      !/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{6}$/.test(parsed.sortKey) ||
+      (parsed.type !== "video" && parsed.type !== "post") ||
+      !Number.isInteger(parsed.id)
+    ) {
+      return null;
+    }
+    return { sortKey: parsed.sortKey, type: parsed.type, id: parsed.id };
+  } catch {
+    return null;
+  }
+}
+
+function compareFeedOrder(a: FeedRow, b: FeedRow): number {
+  if (a.sortKey !== b.sortKey) return a.sortKey < b.sortKey ? 1 : -1;
+  if (a.type !== b.type) return a.type < b.type ? 1 : -1;
+  return b.id - a.id;
+}
+
+function toFeedItem({ sortKey, ...item }: FeedRow): FeedItem {
+  return item;
+}
+
+// Age-restricted content is only shown to signed-in viewers
+export function ageRestrictionFilter(ageRestricted: Column, includeAgeRestricted: boolean): SQL | undefined {
+  return includeAgeRestricted ? undefined : eq(ageRestricted, false);
+}
+
 export async function getVideosByElement(
   elementCategory: ElementCategory,
   limit = 20,
-  offset = 0
-): Promise<FeedItem[]> {
-  const cacheKey = `videos:${elementCategory}:${limit}:${offset}`;
-  const cached = getCached<FeedItem[]>(cacheKey);
-  if (cached) return cached;
+  cursor: FeedCursor | null = null,
+  includeAgeRestricted = false
+): Promise<FeedRow[]> {
+  // Rows strictly after the cursor; videos sort before posts at the same instant
+  let afterCursor;
+  if (cursor) {
+    const cursorAt = sql`${cursor.sortKey}::timestamp`;
+    afterCursor = cursor.type === "video"
+      ? sql`(${videos.createdAt} < ${cursorAt} OR (${videos.createdAt} = ${cursorAt} AND ${videos.id} < ${cursor.id}))`
+      : sql`${videos.createdAt} < ${cursorAt}`;
+  }
 
   const result = await db
     .select({
@@ -42,7 +100,9 @@ export async function getVideosByElement(
       durationSeconds: videos.durationSeconds,
       viewCount: videos.viewCount,
       positivityScore: videos.positivityScore,
+      ageRestricted: videos.ageRestricted,
       createdAt: videos.createdAt,
+      sortKey: sql<string>`to_char(${videos.createdAt}, ${SORT_KEY_FORMAT})`,
       authorId: users.id,
       authorDisplayName: users.displayName,
       authorProfileImage: users.profileImageUrl,
@@ -52,14 +112,16 @@ export async function getVideosByElement(
     .where(
       and(
         eq(videos.elementCategory, elementCategory),
-        eq(videos.uploadStatus, "Published")
+        eq(videos.uploadStatus, "Published"),
+        ne(users.accountStatus, "banned"),
+        ageRestrictionFilter(videos.ageRestricted, includeAgeRestricted),
+        afterCursor
       )
     )
-    .orderBy(desc(videos.createdAt))
-    .limit(limit)
-    .offset(offset);
+    .orderBy(desc(videos.createdAt), desc(videos.id))
+    .limit(limit);
 
-  const items: FeedItem[] = result.map((r) => ({
+  return result.map((r) => ({
     id: r.id,
     type: "video" as ContentType,
     title: r.title,
@@ -69,23 +131,32 @@ export async function getVideosByElement(
     durationSeconds: r.durationSeconds,
     viewCount: r.viewCount,
     positivityScore: r.positivityScore,
+    ageRestricted: r.ageRestricted,
     createdAt: r.createdAt.toISOString(),
+    sortKey: r.sortKey,
     author: {
       id: r.authorId,
       displayName: r.authorDisplayName,
       profileImageUrl: r.authorProfileImage,
     },
   }));
-
-  setCache(cacheKey, items);
-  return items;
 }
 
 export async function getPostsByElement(
   elementCategory: ElementCategory,
   limit = 20,
-  offset = 0
-): Promise<FeedItem[]> {
+  cursor: FeedCursor | null = null,
+  includeAgeRestricted = false
+): Promise<FeedRow[]> {
+  // Posts at the cursor's instant all follow a video cursor
+  let afterCursor;
+  if (cursor) {
+    const cursorAt = sql`${cursor.sortKey}::timestamp`;
+    afterCursor = cursor.type === "post"
+      ? sql`(${posts.createdAt} < ${cursorAt} OR (${posts.createdAt} = ${cursorAt} AND ${posts.id} < ${cursor.id}))`
+      : sql`${posts.createdAt} <= ${cursorAt}`;
+  }
+
   const result = await db
     .select({
       id: posts.id,
@@ -93,7 +164,9 @@ export async function getPostsByElement(
       elementCategory: posts.elementCategory,
       viewCount: posts.viewCount,
       positivityScore: posts.positivityScore,
+      ageRestricted: posts.ageRestricted,
       createdAt: posts.createdAt,
+      sortKey: sql<string>`to_char(${posts.createdAt}, ${SORT_KEY_FORMAT})`,
       authorId: users.id,
       authorDisplayName: users.displayName,
       authorProfileImage: users.profileImageUrl,
@@ -103,12 +176,14 @@ export async function getPostsByElement(
     .where(
       and(
         eq(posts.elementCategory, elementCategory),
-        eq(posts.uploadStatus, "Published")
+        eq(posts.uploadStatus, "Published"),
+        ne(users.accountStatus, "banned"),
+        ageRestrictionFilter(posts.ageRestricted, includeAgeRestricted),
+        afterCursor
       )
     )
-    .orderBy(desc(posts.createdAt))
-    .limit(limit)
-    .offset(offset);
+    .orderBy(desc(posts.createdAt), desc(posts.id))
+    .limit(limit);
 
   return result.map((r) => ({
     id: r.id,
@@ -117,7 +192,9 @@ export async function getPostsByElement(
     elementCategory: r.elementCategory as ElementCategory,
     viewCount: r.viewCount,
     positivityScore: r.positivityScore,
+    ageRestricted: r.ageRestricted,
     createdAt: r.createdAt.toISOString(),
+    sortKey: r.sortKey,
     author: {
       id: r.authorId,
       displayName: r.authorDisplayName,
@@ -129,32 +206,43 @@ export async function getPostsByElement(
 export async function getFeedByElement(
   elementCategory: ElementCategory,
   limit = 20,
-  offset = 0
-): Promise<FeedItem[]> {
-  const cacheKey = `feed:${elementCategory}:${limit}:${offset}`;
-  const cached = getCached<FeedItem[]>(cacheKey);
+  cursor: FeedCursor | null = null,
+  includeAgeRestricted = false
+): Promise<FeedPage> {
+  const audience = includeAgeRestricted ? "all" : "public";
+  const cacheKey = `feed:${elementCategory}:${limit}:${audience}:${cursor ? encodeFeedCursor(cursor) : "start"}`;
+  const cached = getCached<FeedPage>(cacheKey);
   if (cached) return cached;
 
-  // Get both videos and posts, then interleave
-  const [videoItems, postItems] = await Promise.all([
-    getVideosByElement(elementCategory, limit, offset),
-    getPostsByElement(elementCategory, limit, offset),
+  // Fetch one extra row per source: the merged page then knows whether more exist
+  const [videoRows, postRows] = await Promise.all([
+    getVideosByElement(elementCategory, limit + 1, cursor, includeAgeRestricted),
+    getPostsByElement(elementCategory, limit + 1, cursor, includeAgeRestricted),
   ]);
 
-  // Merge and sort by date
-  const combined = [...videoItems, ...postItems]
-    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
-    .slice(0, limit);
+  const merged = [...videoRows, ...postRows].sort(compareFeedOrder);
+  const page = merged.slice(0, limit);
+  const hasMore = merged.length > limit;
+  const last = page[page.length - 1];
 
-  setCache(cacheKey, combined);
-  return combined;
+  const result: FeedPage = {
+    items: page.map(toFeedItem),
+    nextCursor: hasMore && last
+      ? encodeFeedCursor({ sortKey: last.sortKey, type: last.type, id: last.id })
+      : null,
+    hasMore,
+  };
+
+  setCache(cacheKey, result);
+  return result;
 }
 
 export async function getTrendingByElement(
   elementCategory: ElementCategory,
-  limit = 10
+  limit = 10,
+  includeAgeRestricted = false
 ): Promise<TrendingItem[]> {
-  const cacheKey = `trending:${elementCategory}:${limit}`;
+  const cacheKey = `trending:${elementCategory}:${limit}:${includeAgeRestricted ? "all" : "public"}`;
   const cached = getCached<TrendingItem[]>(cacheKey);
   if (cached) return cached;
 
@@ -186,6 +274,7 @@ export async function getTrendingByElement(
           durationSeconds: videos.durationSeconds,
           viewCount: videos.viewCount,
           positivityScore: videos.positivityScore,
+          ageRestricted: videos.ageRestricted,
           createdAt: videos.createdAt,
           authorId: users.id,
           authorDisplayName: users.displayName,
@@ -193,7 +282,14 @@ export async function getTrendingByElement(
         })
         .from(videos)
         .innerJoin(users, eq(videos.createdBy, users.id))
-        .where(and(eq(videos.id, t.contentId), eq(videos.uploadStatus, "Published")));
+        .where(
+          and(
+            eq(videos.id, t.contentId),
+            eq(videos.uploadStatus, "Published"),
+            ne(users.accountStatus, "banned"),
+            ageRestrictionFilter(videos.ageRestricted, includeAgeRestricted)
+          )
+        );
 
       if (video) {
         items.push({
@@ -206,6 +302,7 @@ export async function getTrendingByElement(
           durationSeconds: video.durationSeconds,
           viewCount: video.viewCount,
           positivityScore: video.positivityScore,
+          ageRestricted: video.ageRestricted,
           createdAt: video.createdAt.toISOString(),
           trendingScore: parseFloat(t.trendingScore || "0"),
           viewCount24h: t.viewCount24h,
@@ -225,6 +322,7 @@ export async function getTrendingByElement(
           elementCategory: posts.elementCategory,
           viewCount: posts.viewCount,
           positivityScore: posts.positivityScore,
+          ageRestricted: posts.ageRestricted,
           createdAt: posts.createdAt,
           authorId: users.id,
           authorDisplayName: users.displayName,
@@ -232,7 +330,14 @@ export async function getTrendingByElement(
         })
         .from(posts)
         .innerJoin(users, eq(posts.authorId, users.id))
-        .where(and(eq(posts.id, t.contentId), eq(posts.uploadStatus, "Published")));
+        .where(
+          and(
+            eq(posts.id, t.contentId),
+            eq(posts.uploadStatus, "Published"),
+            ne(users.accountStatus, "banned"),
+            ageRestrictionFilter(posts.ageRestricted, includeAgeRestricted)
+          )
+        );
 
       if (post) {
         items.push({
@@ -242,6 +347,7 @@ export async function getTrendingByElement(
           elementCategory: post.elementCategory as ElementCategory,
           viewCount: post.viewCount,
           positivityScore: post.positivityScore,
+          ageRestricted: post.ageRestricted,
           createdAt: post.createdAt.toISOString(),
           trendingScore: parseFloat(t.trendingScore || "0"),
           viewCount24h: t.viewCount24h,
@@ -262,8 +368,11 @@ export async function getTrendingByElement(
 
 export async function incrementViewCount(
   contentId: number,
-  contentType: ContentType
+  contentType: ContentType,
+  userId?: string | null
 ): Promise<void> {
+  await recordContentEvent(contentId, contentType, "view", userId);
+
   if (contentType === "video") {
     await db
       .update(videos)
@@ -277,7 +386,7 @@ export async function incrementViewCount(
   }
 }
 
-export async function getRandomPublishedContent(): Promise<FeedItem | null> {
+export async function getRandomPublishedContent(includeAgeRestricted = false): Promise<FeedItem | null> {
   // Cryptographically random selection: first decide video or post
   const isVideo = Math.random() > 0.5;
 
@@ -299,13 +408,19 @@ export async function getRandomPublishedContent(): Promise<FeedItem | null> {
       })
       .from(videos)
       .innerJoin(users, eq(videos.createdBy, users.id))
-      .where(eq(videos.uploadStatus, "Published"))
+      .where(
+        and(
+          eq(videos.uploadStatus, "Published"),
+          ne(users.accountStatus, "banned"),
+          ageRestrictionFilter(videos.ageRestricted, includeAgeRestricted)
+        )
+      )
       .orderBy(sql`RANDOM()`)
       .limit(1);
 
     if (result.length === 0) {
       // Fallback to posts
-      return getRandomPost();
+      return getRandomPost(includeAgeRestricted);
     }
 
     const r = result[0];
@@ -327,11 +442,11 @@ export async function getRandomPublishedContent(): Promise<FeedItem | null> {
       },
     };
   } else {
-    return getRandomPost();
+    return getRandomPost(includeAgeRestricted);
   }
 }
 
-async function getRandomPost(): Promise<FeedItem | null> {
+async function getRandomPost(includeAgeRestricted: boolean): Promise<FeedItem | null> {
   const result = await db
     .select({
       id: posts.id,
@@ -346,7 +461,13 @@ async function getRandomPost(): Promise<FeedItem | null> {
     })
     .from(posts)
     .innerJoin(users, eq(posts.authorId, users.id))
-    .where(eq(posts.uploadStatus, "Published"))
+    .where(
+      and(
+        eq(posts.uploadStatus, "Published"),
+        ne(users.accountStatus, "banned"),
+        ageRestrictionFilter(posts.ageRestricted, includeAgeRestricted)
+      )
+    )
     .orderBy(sql`RANDOM()`)
     .limit(1);
 
@@ -0,0 +1,240 @@
+// Job Queue Service
+// Postgres-backed durable queue: jobs survive restarts, workers lease them with a
+// visibility timeout, failures retry with exponential backoff, and jobs that
+// exhaust their attempts move to the "dead" state for manual retry.
+import { db } from "../db";
+import { jobs, type Job } from "@shared/schema";
+import { eq, and, desc, inArray, sql } from "drizzle-orm";
+import { getBackoffDelay } from "../lib/ai-error-handler";
+import type { JobType, JobStatus } from "@shared/types";
+
+const VISIBILITY_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
+const RETRY_BASE_DELAY_MS = 5_000;
+const RETRY_MAX_DELAY_MS = 10 * 60 * 1000;
+
+export interface JobHandler<T = any> {
+  run: (payload: T, job: Job) => Promise<void>;
+  // Called once when the job exhausts its attempts
+  onDead?: (payload: T, job: Job, error: Error) => Promise<void>;
+}
+
+const handlers = new Map<JobType, JobHandler>();
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export function registerJobHandler<T>(type: JobType, handler: JobHandler<T>): void {
+  handlers.set(type, handler);
+}
+
+// Pass tx to enqueue atomically with the row the job works on, so a crash
+// can't leave that row without its job
+export async function enqueueJob(
+  type: JobType,
+  payload: Record<string, unknown>,
+  options: { maxAttempts?: number; runAt?: Date; tx?: Transaction } = {}
+): Promise<Job> {
+  const [job] = await (options.tx ?? db).insert(jobs).values({
+    type,
+    payload,
+    maxAttempts: options.maxAttempts,
+    runAt: options.runAt,
+  }).returning();
+  return job;
+}
+
+// A job whose lease expired on its last attempt crashed (or hung) its worker
+// every time: move it to dead instead of reclaiming it forever
+async function reapExhaustedLeases(): Promise<void> {
+  const exhausted = await db
+    .update(jobs)
+    .set({
+      status: "dead",
+      lastError: "Lease expired on the final attempt",
+      leasedUntil: null,
+      lockedBy: null,
+      updatedAt: new Date(),
+    })
+    .where(sql`${jobs.status} = 'running' AND ${jobs.leasedUntil} < NOW() AND ${jobs.attempts} >= ${jobs.maxAttempts}`)
+    .returning();
+
+  for (const job of exhausted) {
+    console.error(`[Jobs] Job ${job.id} (${job.type}) lease expired after ${job.attempts} attempts; marked dead`);
+    const handler = handlers.get(job.type);
+    if (handler?.onDead) {
+      await handler.onDead(job.payload, job, new Error(job.lastError!));
+    }
+  }
+}
+
+// Atomically lease the next due job, or reclaim one whose lease expired
+export async function leaseNextJob(workerId: string): Promise<Job | undefined> {
+  const [job] = await db
+    .update(jobs)
+    .set({
+      status: "running",
+      attempts: sql`${jobs.attempts} + 1`,
+      leasedUntil: sql`NOW() + make_interval(secs => ${VISIBILITY_TIMEOUT_MS / 1000})`,
+      lockedBy: workerId,
+      updatedAt: new Date(),
+    })
+    .where(sql`${jobs.id} = (
+      SELECT id FROM jobs
+      WHERE (status = 'pending' AND run_at <= NOW())
+         OR (status = 'running' AND leased_until < NOW() AND attempts < max_attempts)
+      ORDER BY run_at
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )`)
+    .returning();
+  return job;
+}
+
+// Only the run that holds the lease may settle the job: once a lease expires and
+// the job is reclaimed, the old run's outcome is discarded
+function heldLease(job: Job) {
+  return and(
+    eq(jobs.id, job.id),
+    eq(jobs.status, "running"),
+    eq(jobs.lockedBy, job.lockedBy!),
+    eq(jobs.attempts, job.attempts)
+  );
+}
+
+function logLostLease(job: Job): void {
+  console.warn(`[Jobs] Job ${job.id} (${job.type}) lost its lease before attempt ${job.attempts} finished; result discarded`);
+}
+
+async function completeJob(job: Job): Promise<void> {
+  const [completed] = await db
+    .update(jobs)
+    .set({ status: "completed", leasedUntil: null, lockedBy: null, updatedAt: new Date() })
+    .where(heldLease(job))
+    .returning({ id: jobs.id });
+  if (!completed) logLostLease(job);
+}
+
+async function failJob(job: Job, error: Error): Promise<void> {
+  if (job.attempts >= job.maxAttempts) {
+    const [dead] = await db
+      .update(jobs)
+      .set({ status: "dead", lastError: error.message, leasedUntil: null, lockedBy: null, updatedAt: new Date() })
+      .where(heldLease(job))
+      .returning({ id: jobs.id });
+    if (!dead) {
+      logLostLease(job);
+      return;
+    }
+
+    const handler = handlers.get(job.type);
+    if (handler?.onDead) {
+      await handler.onDead(job.payload, job, error);
+    }
+    return;
+  }
+
+  const delay = getBackoffDelay(job.attempts - 1, {
+    baseDelay: RETRY_BASE_DELAY_MS,
+    maxDelay: RETRY_MAX_DELAY_MS,
+  });
+
+  const [retried] = await db
+    .update(jobs)
+    .set({
+      status: "pending",
+      lastError: error.message,
+      runAt: new Date(Date.now() + delay),
+      leasedUntil: null,
+      lockedBy: null,
+      updatedAt: new Date(),
+    })
+    .where(heldLease(job))
+    .returning({ id: jobs.id });
+  if (!retried) logLostLease(job);
+}
+
+export async function runJob(job: Job): Promise<void> {
+  const handler = handlers.get(job.type);
+  if (!handler) {
+    await failJob(job, new Error(`No handler registered for job type "${job.type}"`));
+    return;
+  }
+
+  try {
+    await handler.run(job.payload, job);
+    await completeJob(job);
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    console.error(`[Jobs] Job ${job.id} (${job.type}) attempt ${job.attempts} failed:`, err.message);
+    await failJob(job, err);
+  }
+}
+
+// Poll for due jobs and run them one at a time; returns a stop function
+export function startJobWorker(pollIntervalMs = 2_000): () => void {
+  const workerId = `worker-${process.pid}-${Math.random().toString(36).slice(2, 8)}`;
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const tick = async () => {
+    try {
+      await reapExhaustedLeases();
+      let job = await leaseNextJob(workerId);
+      while (job && !stopped) {
+        await runJob(job);
+        job = await leaseNextJob(workerId);
+      }
+    } catch (error) {
+      console.error("[Jobs] Worker poll error:", error);
+    }
+    if (!stopped) {
+      timer = setTimeout(tick, pollIntervalMs);
+      if (timer.unref) timer.unref();
+    }
+  };
+
+  timer = setTimeout(tick, pollIntervalMs);
+  if (timer.unref) timer.unref();
+  console.log(`[Jobs] Worker ${workerId} started`);
+
+  return () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+  };
+}
+
+// ── Admin operations ────────────────────────────────────────
+
+export async function listJobs(
+  filters: { status?: JobStatus; type?: JobType; limit?: number } = {}
+): Promise<Job[]> {
+  const conditions = [];
+  if (filters.status) conditions.push(eq(jobs.status, filters.status));
+  if (filters.type) conditions.push(eq(jobs.type, filters.type));
+
+  return await db
+    .select()
+    .from(jobs)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(jobs.createdAt))
+    .limit(filters.limit ?? 50);
+}
+
+// Requeue a dead or cancelled job with a fresh attempt budget
+export async function retryJob(id: number): Promise<Job | undefined> {
+  const [job] = await db
+    .update(jobs)
+    .set({ status: "pending", attempts: 0, runAt: new Date(), lastError: null, updatedAt: new Date() })
+    .where(and(eq(jobs.id, id), inArray(jobs.status, ["dead", "cancelled"])))
+    .returning();
+  return job;
+}
+
+// Only jobs that have not started can be cancelled
+export async function cancelJob(id: number): Promise<Job | undefined> {
+  const [job] = await db
+    .update(jobs)
+    .set({ status: "cancelled", updatedAt: new Date() })
+    .where(and(eq(jobs.id, id), eq(jobs.status, "pending")))
+    .returning();
+  return job;
+}
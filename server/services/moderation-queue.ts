@@ -0,0 +1,277 @@
+// Moderation Queue Service
+// Lists queue items with their content and SLA state, and coordinates review:
+// a moderator claims an item for a short lease (status in_review) so nobody
+// else acts on it, and admins can assign items to a specific moderator.
+import { db } from "../db";
+import { moderationQueue, posts, videos, comments, auditLog, type ModerationQueueRecord } from "@shared/schema";
+import { users } from "@shared/models/auth";
+import { eq, and, ne, or, lt, isNull, inArray, desc, sql, type SQL } from "drizzle-orm";
+import { moderationSlaMinutes, CLAIM_LEASE_MINUTES } from "@shared/moderation";
+import {
+  moderationPriorities,
+  type ContentType,
+  type ElementCategory,
+  type FeedItem,
+  type ModerationQueueItem,
+  type ModerationQueueStatus,
+} from "@shared/types";
+import { loadUserAccess } from "../middleware/moderation-auth";
+
+// ── Listing ─────────────────────────────────────────────────
+
+const priorityOrder = sql`CASE ${moderationQueue.priority} ${sql.join(
+  moderationPriorities.map((p, i) => sql`WHEN ${p} THEN ${i}`),
+  sql` `
+)} END`;
+
+const slaLimit = sql`CASE ${moderationQueue.priority} ${sql.join(
+  moderationPriorities.map((p) => sql`WHEN ${p} THEN ${moderationSlaMinutes[p]}`),
+  sql` `
+)} END`;
+
+const minutesInQueue = sql<number>`FLOOR(EXTRACT(EPOCH FROM (COALESCE(${moderationQueue.resolvedAt}, NOW()) - ${moderationQueue.createdAt})) / 60)`.mapWith(Number);
+
+// Claims whose lease ran out go back to pending
+async function releaseExpiredClaims(): Promise<void> {
+  await db
+    .update(moderationQueue)
+    .set({ status: "pending", claimedBy: null, claimExpiresAt: null })
+    .where(and(eq(moderationQueue.status, "in_review"), lt(moderationQueue.claimExpiresAt, new Date())));
+}
+
+export interface QueueListOptions {
+  status: ModerationQueueStatus;
+  assignedTo?: string;
+  slaBreached?: boolean;
+  limit?: number;
+}
+
+export async function listModerationQueue(options: QueueListOptions): Promise<ModerationQueueItem[]> {
+  await releaseExpiredClaims();
+
+  const conditions: SQL[] = [eq(moderationQueue.status, options.status)];
+  if (options.assignedTo) conditions.push(eq(moderationQueue.assignedTo, options.assignedTo));
+  if (options.slaBreached !== undefined) {
+    conditions.push(options.slaBreached ? sql`${minutesInQueue} > ${slaLimit}` : sql`${minutesInQueue} <= ${slaLimit}`);
+  }
+
+  const rows = await db
+    .select({ item: moderationQueue, minutesInQueue })
+    .from(moderationQueue)
+    .where(and(...conditions))
+    .orderBy(priorityOrder, desc(moderationQueue.createdAt))
+    .limit(options.limit ?? 100);
+
+  return toQueueItems(rows);
+}
+
+type Author = NonNullable<FeedItem["author"]>;
+
+// Load the reviewed content (or user) for each item, a few queries per type
+async function toQueueItems(
+  rows: { item: ModerationQueueRecord; minutesInQueue: number }[]
+): Promise<ModerationQueueItem[]> {
+  const idsOf = (type: ContentType) =>
+    rows.filter((r) => r.item.contentType === type && r.item.contentId !== null).map((r) => r.item.contentId!);
+  const postIds = idsOf("post");
+  const videoIds = idsOf("video");
+  const commentIds = idsOf("comment");
+  const userIds = rows.filter((r) => r.item.targetUserId).map((r) => r.item.targetUserId!);
+
+  const author = { id: users.id, displayName: users.displayName, profileImageUrl: users.profileImageUrl };
+
+  const [postRows, videoRows, commentRows, userRows] = await Promise.all([
+    postIds.length
+      ? db.select({ post: posts, author }).from(posts).innerJoin(users, eq(posts.authorId, users.id)).where(inArray(posts.id, postIds))
+      : [],
+    videoIds.length
+      ? db.select({ video: videos, author }).from(videos).innerJoin(users, eq(videos.createdBy, users.id)).where(inArray(videos.id, videoIds))
+      : [],
+    commentIds.length
+      ? db
+          .select({ comment: comments, elementCategory: posts.elementCategory, author })
+          .from(comments)
+          .innerJoin(users, eq(comments.authorId, users.id))
+          .innerJoin(posts, eq(comments.postId, posts.id))
+          .where(inArray(comments.id, commentIds))
+      : [],
+    userIds.length ? db.select(author).from(users).where(inArray(users.id, userIds)) : [],
+  ]);
+
+  const content = new Map<string, FeedItem>();
+  for (const { post, author } of postRows) {
+    content.set(`post:${post.id}`, {
+      id: post.id,
+      type: "post",
+      content: post.content,
+      elementCategory: (post.elementCategory || "Spiritual") as ElementCategory,
+      viewCount: post.viewCount,
+      positivityScore: post.positivityScore,
+      ageRestricted: post.ageRestricted,
+      createdAt: post.createdAt.toISOString(),
+      author,
+    });
+  }
+  for (const { video, author } of videoRows) {
+    content.set(`video:${video.id}`, {
+      id: video.id,
+      type: "video",
+      title: video.title,
+      description: video.description,
+      elementCategory: video.elementCategory,
+      videoUrl: video.videoUrl,
+      durationSeconds: video.durationSeconds,
+      viewCount: video.viewCount,
+      positivityScore: video.positivityScore,
+      ageRestricted: video.ageRestricted,
+      createdAt: video.createdAt.toISOString(),
+      author,
+    });
+  }
+  for (const { comment, elementCategory, author } of commentRows) {
+    content.set(`comment:${comment.id}`, {
+      id: comment.id,
+      type: "comment",
+      content: comment.content,
+      elementCategory: (elementCategory || "Spiritual") as ElementCategory,
+      viewCount: 0,
+      positivityScore: comment.positivityScore,
+      createdAt: comment.createdAt.toISOString(),
+      author,
+    });
+  }
+  const targetUsers = new Map<string, Author>(userRows.map((u) => [u.id, u]));
+
+  return rows.map(({ item, minutesInQueue }) => {
+    const slaMinutes = moderationSlaMinutes[item.priority];
+    return {
+      id: item.id,
+      contentId: item.contentId,
+      contentType: item.contentType,
+      targetUserId: item.targetUserId,
+      aiFlaggedReason: item.aiFlaggedReason,
+      priority: item.priority,
+      status: item.status,
+      reportCount: item.reportCount,
+      createdAt: item.createdAt.toISOString(),
+      resolvedAt: item.resolvedAt?.toISOString() ?? null,
+      assignedTo: item.assignedTo,
+      claimedBy: item.status === "in_review" ? item.claimedBy : null,
+      claimExpiresAt: item.status === "in_review" ? item.claimExpiresAt?.toISOString() ?? null : null,
+      minutesInQueue,
+      slaMinutes,
+      slaBreached: minutesInQueue > slaMinutes,
+      content: content.get(`${item.contentType}:${item.contentId}`),
+      targetUser: item.targetUserId ? targetUsers.get(item.targetUserId) : undefined,
+    };
+  });
+}
+
+// ── Claims ──────────────────────────────────────────────────
+
+export type ClaimResult =
+  | { status: "claimed"; item: ModerationQueueRecord }
+  | { status: "not_found" | "resolved" }
+  | { status: "claimed_by_other"; claimedBy: string; claimExpiresAt: Date | null }
+  | { status: "assigned_to_other"; assignedTo: string };
+
+// Claim (or renew a claim on) an item for CLAIM_LEASE_MINUTES
+export async function claimQueueItem(itemId: number, moderatorId: string): Promise<ClaimResult> {
+  const now = new Date();
+  const [item] = await db
+    .update(moderationQueue)
+    .set({
+      status: "in_review",
+      claimedBy: moderatorId,
+      claimExpiresAt: new Date(now.getTime() + CLAIM_LEASE_MINUTES * 60_000),
+    })
+    .where(
+      and(
+        eq(moderationQueue.id, itemId),
+        ne(moderationQueue.status, "resolved"),
+        or(isNull(moderationQueue.assignedTo), eq(moderationQueue.assignedTo, moderatorId)),
+        or(
+          ne(moderationQueue.status, "in_review"),
+          eq(moderationQueue.claimedBy, moderatorId),
+          lt(moderationQueue.claimExpiresAt, now)
+        )
+      )
+    )
+    .returning();
+  if (item) return { status: "claimed", item };
+
+  // Explain why the claim was refused
+  const [current] = await db.select().from(moderationQueue).where(eq(moderationQueue.id, itemId));
+  if (!current) return { status: "not_found" };
+  if (current.status === "resolved") return { status: "resolved" };
+  if (current.assignedTo && current.assignedTo !== moderatorId) {
+    return { status: "assigned_to_other", assignedTo: current.assignedTo };
+  }
+  return { status: "claimed_by_other", claimedBy: current.claimedBy!, claimExpiresAt: current.claimExpiresAt };
+}
+
+export async function releaseQueueItem(itemId: number, moderatorId: string): Promise<boolean> {
+  const [item] = await db
+    .update(moderationQueue)
+    .set({ status: "pending", claimedBy: null, claimExpiresAt: null })
+    .where(
+      and(
+        eq(moderationQueue.id, itemId),
+        eq(moderationQueue.status, "in_review"),
+        eq(moderationQueue.claimedBy, moderatorId)
+      )
+    )
+    .returning({ id: moderationQueue.id });
+  return !!item;
+}
+
+// ── Assignment ──────────────────────────────────────────────
+
+export type AssignResult =
+  | { status: "assigned"; item: ModerationQueueRecord }
+  | { status: "not_found" | "resolved" | "invalid_assignee" };
+
+// Assign an item to a moderator (or unassign with null). A claim held by
+// someone other than the new assignee is dropped.
+export async function assignQueueItem(
+  itemId: number,
+  assigneeId: string | null,
+  actorId: string
+): Promise<AssignResult> {
+  if (assigneeId) {
+    const access = await loadUserAccess(assigneeId);
+    if (!access?.permissions.includes("moderate:decide")) return { status: "invalid_assignee" };
+  }
+
+  return await db.transaction(async (tx) => {
+    const [current] = await tx
+      .select()
+      .from(moderationQueue)
+      .where(eq(moderationQueue.id, itemId))
+      .for("update");
+    if (!current) return { status: "not_found" };
+    if (current.status === "resolved") return { status: "resolved" };
+
+    const keepClaim = current.status === "in_review" && (!assigneeId || current.claimedBy === assigneeId);
+    const [item] = await tx
+      .update(moderationQueue)
+      .set({
+        assignedTo: assigneeId,
+        assignedAt: assigneeId ? new Date() : null,
+        ...(keepClaim ? {} : { status: "pending" as const, claimedBy: null, claimExpiresAt: null }),
+      })
+      .where(eq(moderationQueue.id, itemId))
+      .returning();
+
+    await tx.insert(auditLog).values({
+      action: "assign",
+      actorId,
+      contentId: current.contentId,
+      contentType: current.contentType === "user" ? null : current.contentType,
+      targetUserId: current.targetUserId,
+      changes: { queueItemId: itemId, previousAssignee: current.assignedTo, assignee: assigneeId },
+    });
+
+    return { status: "assigned", item };
+  });
+}
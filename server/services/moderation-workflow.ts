@@ -1,228 +1,875 @@
 // Moderation Workflow Service
 // Orchestrates: analysis → safety check → auto-approve or flag → update status
 import { db } from "../db";
-import { videos, posts, moderationQueue, auditLog } from "@shared/schema";
-import { eq } from "drizzle-orm";
+import { videos, posts, comments, moderationQueue, auditLog, appeals, type ModerationQueueRecord } from "@shared/schema";
+import { randomUUID } from "crypto";
+import { eq, and, ne, or, inArray, isNull, lte, desc, sql, type SQL } from "drizzle-orm";
 import { analyzeVideoElement, analyzeTextElement } from "./content-analysis";
 import { checkContentSafety, checkVideoSafety } from "./safety-moderation";
 // @ts-ignore - TS server cache issue with newly created file; file exists at ./positivity-analyzer.ts
 import { analyzePositivity } from "./positivity-analyzer";
-import type { ContentType, ModerationStatus } from "@shared/types";
+import { enqueueJob, registerJobHandler } from "./job-queue";
+import { invalidateFeedCache } from "./feed-service";
+import { notifyModerationOutcome, notifyModerationDecision, notifyComment } from "./notifications";
+import { isBlockedEitherWay } from "./social-graph";
+import { resolveReports } from "./report-triage";
+import { issueStrike, revokeContentStrikes, type StrikeInput } from "./strikes";
+import { checkAchievements } from "./achievements";
+import { disconnectUser } from "../websocket/friends-watching";
+import { allowedDecisions, BULK_DECISION_LIMIT } from "@shared/moderation";
+import type {
+  AuditAction,
+  ContentType,
+  ModerationDecision,
+  ModerationPriority,
+  ModerationStatus,
+  ModerationTargetType,
+  UploadStatus,
+} from "@shared/types";
 
-export async function processVideoUpload(
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+interface VideoAnalysisPayload {
+  videoId: number;
+  title: string;
+  description?: string;
+  videoUrl: string;
+  actorId: string;
+}
+
+interface PostAnalysisPayload {
+  postId: number;
+  content: string;
+  actorId: string;
+}
+
+// Comments can be edited while a job is waiting, so the job carries only the
+// id and reads the current text when it runs
+interface CommentAnalysisPayload {
+  commentId: number;
+}
+
+// Queue a content item for review unless it already has an open queue entry
+// (job retries may re-run analysis for the same content). Returns the item id.
+async function addToModerationQueue(
+  contentId: number,
+  contentType: ContentType,
+  aiFlaggedReason: string,
+  priority: ModerationPriority
+): Promise<number> {
+  const [open] = await db
+    .select({ id: moderationQueue.id })
+    .from(moderationQueue)
+    .where(
+      and(
+        eq(moderationQueue.contentId, contentId),
+        eq(moderationQueue.contentType, contentType),
+        ne(moderationQueue.status, "resolved")
+      )
+    )
+    .limit(1);
+
+  if (open) return open.id;
+
+  const [item] = await db
+    .insert(moderationQueue)
+    .values({
+      contentId,
+      contentType,
+      aiFlaggedReason,
+      priority,
+      status: "pending",
+    })
+    .returning({ id: moderationQueue.id });
+  return item.id;
+}
+
+// High-risk content the AI rejects outright costs the creator a strike, just
+// like a moderator rejection. It is tied to the queue item, so a retried job or
+// a moderator later rejecting the same item adds no second strike, and a
+// moderator approving it withdraws the strike.
+async function strikeAutoRejection(
+  userId: string,
+  contentType: ContentType,
+  contentId: number,
+  queueItemId: number,
+  flags: string[]
+): Promise<void> {
+  const { suspended } = await db.transaction((tx) =>
+    issueStrike(tx, {
+      userId,
+      source: "content_rejected",
+      contentType,
+      contentId,
+      queueItemId,
+      issuedBy: null,
+      reason: flags.join(", "),
+    })
+  );
+  if (suspended) disconnectUser(userId);
+}
+
+async function analyzeVideo(
   videoId: number,
   title: string,
   description: string | undefined,
   videoUrl: string,
   actorId: string
-): Promise<{ success: boolean; status: ModerationStatus }> {
-  try {
-    // 1. Analyze element category
-    const analysis = await analyzeVideoElement(videoUrl, title, description);
+): Promise<ModerationStatus> {
+  // 1. Analyze element category
+  const analysis = await analyzeVideoElement(videoUrl, title, description);
 
-    // 2. Run safety check
-    const safety = await checkVideoSafety(title, description, videoUrl);
+  // 2. Run safety check
+  const safety = await checkVideoSafety(title, description, videoUrl);
 
-    // 3. Analyze positivity
-    const positivityScore = await analyzePositivity(`${title} ${description || ""}`);
+  // 3. Analyze positivity
+  const positivityScore = await analyzePositivity(`${title} ${description || ""}`);
 
-    // 4. Determine moderation decision
-    let moderationStatus: ModerationStatus;
+  // 4. Determine moderation decision
+  let moderationStatus: ModerationStatus;
 
-    if (!safety.isSafe) {
-      moderationStatus = safety.riskLevel === "high" ? "rejected" : "requires_review";
+  if (!safety.isSafe) {
+    moderationStatus = safety.riskLevel === "high" ? "rejected" : "requires_review";
 
-      // Add to moderation queue
-      await db.insert(moderationQueue).values({
-        contentId: videoId,
-        contentType: "video",
-        aiFlaggedReason: safety.flags.join(", "),
-        priority: safety.riskLevel === "high" ? "urgent" : "high",
-        status: "pending",
-      });
-    } else if (analysis.confidence < 0.5) {
-      moderationStatus = "requires_review";
-
-      await db.insert(moderationQueue).values({
-        contentId: videoId,
-        contentType: "video",
-        aiFlaggedReason: `Low categorization confidence: ${analysis.confidence}`,
-        priority: "normal",
-        status: "pending",
-      });
-    } else {
-      moderationStatus = "auto_approved";
+    // Add to moderation queue
+    const queueItemId = await addToModerationQueue(
+      videoId,
+      "video",
+      safety.flags.join(", "),
+      safety.riskLevel === "high" ? "urgent" : "high"
+    );
+    if (moderationStatus === "rejected") {
+      await strikeAutoRejection(actorId, "video", videoId, queueItemId, safety.flags);
     }
+  } else if (analysis.confidence < 0.5) {
+    moderationStatus = "requires_review";
 
-    // 5. Update video record
-    await db
-      .update(videos)
-      .set({
-        elementCategory: analysis.elementType,
-        aiAnalysisResult: analysis,
-        safetyAssessment: safety,
-        moderationStatus,
-        uploadStatus: moderationStatus === "auto_approved" ? "Published" : moderationStatus === "rejected" ? "Flagged" : "Under Review",
-        positivityScore,
-      })
-      .where(eq(videos.id, videoId));
-
-    // 6. Create audit log
-    await db.insert(auditLog).values({
-      action: moderationStatus === "auto_approved" ? "publish" : "moderate",
-      actorId,
-      contentId: videoId,
-      contentType: "video",
-      changes: {
-        analysis,
-        safety,
-        moderationStatus,
-        positivityScore,
-      },
-    });
-
-    return { success: true, status: moderationStatus };
-  } catch (error) {
-    console.error("[Moderation] Error processing video upload:", error);
-
-    // Set to requires_review on error
-    await db
-      .update(videos)
-      .set({
-        moderationStatus: "requires_review",
-        uploadStatus: "Under Review",
-      })
-      .where(eq(videos.id, videoId));
+    await addToModerationQueue(
+      videoId,
+      "video",
+      `Low categorization confidence: ${analysis.confidence}`,
+      "normal"
+    );
+  } else {
+    moderationStatus = "auto_approved";
+  }
 
-    await db.insert(moderationQueue).values({
-      contentId: videoId,
-      contentType: "video",
-      aiFlaggedReason: `Processing error: ${error instanceof Error ? error.message : "Unknown error"}`,
-      priority: "high",
-      status: "pending",
-    });
+  // 5. Update video record
+  await db
+    .update(videos)
+    .set({
+      elementCategory: analysis.elementType,
+      aiAnalysisResult: analysis,
+      safetyAssessment: safety,
+      moderationStatus,
+      uploadStatus: moderationStatus === "auto_approved" ? "Published" : moderationStatus === "rejected" ? "Flagged" : "Under Review",
+      positivityScore,
+    })
+    .where(eq(videos.id, videoId));
+
+  // 6. Create audit log
+  await db.insert(auditLog).values({
+    action: moderationStatus === "auto_approved" ? "publish" : "moderate",
+    actorId,
+    contentId: videoId,
+    contentType: "video",
+    changes: {
+      analysis,
+      safety,
+      moderationStatus,
+      positivityScore,
+    },
+  });
+
+  await notifyModerationOutcome(actorId, videoId, "video", moderationStatus);
 
-    return { success: false, status: "requires_review" };
+  return moderationStatus;
+}
+
+// Set to requires_review on error and hand the video to a human moderator
+async function flagVideoProcessingError(videoId: number, error: unknown): Promise<void> {
+  const [video] = await db
+    .update(videos)
+    .set({
+      moderationStatus: "requires_review",
+      uploadStatus: "Under Review",
+    })
+    .where(eq(videos.id, videoId))
+    .returning({ createdBy: videos.createdBy });
+
+  await addToModerationQueue(
+    videoId,
+    "video",
+    `Processing error: ${error instanceof Error ? error.message : "Unknown error"}`,
+    "high"
+  );
+
+  if (video) {
+    await notifyModerationOutcome(video.createdBy, videoId, "video", "requires_review");
   }
 }
 
-export async function processPostCreation(
+async function analyzePost(
   postId: number,
   content: string,
   actorId: string
-): Promise<{ success: boolean; status: ModerationStatus }> {
-  try {
-    // 1. Analyze element category
-    const analysis = await analyzeTextElement(content);
+): Promise<ModerationStatus> {
+  // 1. Analyze element category
+  const analysis = await analyzeTextElement(content);
 
-    // 2. Run safety check
-    const safety = await checkContentSafety(content, "post");
+  // 2. Run safety check
+  const safety = await checkContentSafety(content, "post");
 
-    // 3. Analyze positivity
-    const positivityScore = await analyzePositivity(content);
+  // 3. Analyze positivity
+  const positivityScore = await analyzePositivity(content);
 
-    // 4. Determine moderation decision
-    let moderationStatus: ModerationStatus;
+  // 4. Determine moderation decision
+  let moderationStatus: ModerationStatus;
 
-    if (!safety.isSafe) {
-      moderationStatus = safety.riskLevel === "high" ? "rejected" : "requires_review";
+  if (!safety.isSafe) {
+    moderationStatus = safety.riskLevel === "high" ? "rejected" : "requires_review";
 
-      await db.insert(moderationQueue).values({
-        contentId: postId,
-        contentType: "post",
-        aiFlaggedReason: safety.flags.join(", "),
-        priority: safety.riskLevel === "high" ? "urgent" : "high",
-        status: "pending",
-      });
-    } else {
-      moderationStatus = "auto_approved";
+    const queueItemId = await addToModerationQueue(
+      postId,
+      "post",
+      safety.flags.join(", "),
+      safety.riskLevel === "high" ? "urgent" : "high"
+    );
+    if (moderationStatus === "rejected") {
+      await strikeAutoRejection(actorId, "post", postId, queueItemId, safety.flags);
     }
+  } else {
+    moderationStatus = "auto_approved";
+  }
 
-    // 5. Update post record
-    await db
-      .update(posts)
-      .set({
-        elementCategory: analysis.elementType,
-        safetyAssessment: safety,
-        moderationStatus,
-        uploadStatus: moderationStatus === "auto_approved" ? "Published" : moderationStatus === "rejected" ? "Flagged" : "Under Review",
-        positivityScore,
-      })
-      .where(eq(posts.id, postId));
-
-    // 6. Create audit log
-    await db.insert(auditLog).values({
-      action: moderationStatus === "auto_approved" ? "publish" : "moderate",
-      actorId,
-      contentId: postId,
-      contentType: "post",
-      changes: {
-        analysis,
-        safety,
-        moderationStatus,
-        positivityScore,
-      },
-    });
-
-    return { success: true, status: moderationStatus };
-  } catch (error) {
-    console.error("[Moderation] Error processing post:", error);
-
-    await db
-      .update(posts)
-      .set({
-        moderationStatus: "requires_review",
-        uploadStatus: "Under Review",
-      })
-      .where(eq(posts.id, postId));
+  // 5. Update post record
+  await db
+    .update(posts)
+    .set({
+      elementCategory: analysis.elementType,
+      safetyAssessment: safety,
+      moderationStatus,
+      uploadStatus: moderationStatus === "auto_approved" ? "Published" : moderationStatus === "rejected" ? "Flagged" : "Under Review",
+      positivityScore,
+    })
+    .where(eq(posts.id, postId));
+
+  // 6. Create audit log
+  await db.insert(auditLog).values({
+    action: moderationStatus === "auto_approved" ? "publish" : "moderate",
+    actorId,
+    contentId: postId,
+    contentType: "post",
+    changes: {
+      analysis,
+      safety,
+      moderationStatus,
+      positivityScore,
+    },
+  });
+
+  await notifyModerationOutcome(actorId, postId, "post", moderationStatus);
+  if (moderationStatus === "auto_approved") checkAchievements(actorId);
+
+  return moderationStatus;
+}
+
+async function flagPostProcessingError(postId: number, error: unknown): Promise<void> {
+  const [post] = await db
+    .update(posts)
+    .set({
+      moderationStatus: "requires_review",
+      uploadStatus: "Under Review",
+    })
+    .where(eq(posts.id, postId))
+    .returning({ authorId: posts.authorId });
+
+  await addToModerationQueue(
+    postId,
+    "post",
+    `Processing error: ${error instanceof Error ? error.message : "Unknown error"}`,
+    "high"
+  );
 
-    return { success: false, status: "requires_review" };
+  if (post) {
+    await notifyModerationOutcome(post.authorId, postId, "post", "requires_review");
   }
 }
 
-export async function resolveModeration(
-  contentId: number,
-  contentType: ContentType,
-  decision: "approved" | "rejected",
+// Tell the parent comment's author about a reply and the post author about
+// every comment (unless they were already notified as that parent). Runs once
+// a comment is approved, so held or rejected comments never reach anyone.
+// Re-approval after an edit stays silent, and blocks are respected.
+export async function notifyCommentPublished(commentId: number): Promise<void> {
+  const [comment] = await db.select().from(comments).where(eq(comments.id, commentId));
+  if (!comment || comment.deletedAt || comment.editedAt) return;
+
+  const [parent] = comment.parentId
+    ? await db.select({ authorId: comments.authorId }).from(comments).where(eq(comments.id, comment.parentId))
+    : [];
+  const [post] = await db.select({ authorId: posts.authorId }).from(posts).where(eq(posts.id, comment.postId));
+
+  const recipients: { userId: string; isReply: boolean }[] = [];
+  if (parent) recipients.push({ userId: parent.authorId, isReply: true });
+  if (post && post.authorId !== parent?.authorId) recipients.push({ userId: post.authorId, isReply: false });
+
+  for (const { userId, isReply } of recipients) {
+    if (await isBlockedEitherWay(userId, comment.authorId)) continue;
+    await notifyComment(userId, comment.authorId, comment.postId, isReply);
+  }
+}
+
+// Comments run the same safety + positivity checks as posts (no element category).
+// Returns null when the comment was deleted or edited after the job was queued;
+// the edit queued its own job, which analyzes the newer text.
+async function analyzeComment(
+  commentId: number,
+  enqueuedAt: Date
+): Promise<ModerationStatus | null> {
+  const notEditedSince = or(isNull(comments.editedAt), lte(comments.editedAt, enqueuedAt));
+  const [comment] = await db
+    .select({ content: comments.content, authorId: comments.authorId })
+    .from(comments)
+    .where(and(eq(comments.id, commentId), isNull(comments.deletedAt), notEditedSince));
+  if (!comment) return null;
+
+  const actorId = comment.authorId;
+  const safety = await checkContentSafety(comment.content, "post");
+  const positivityScore = await analyzePositivity(comment.content);
+
+  let moderationStatus: ModerationStatus;
+  if (!safety.isSafe) {
+    moderationStatus = safety.riskLevel === "high" ? "rejected" : "requires_review";
+  } else {
+    moderationStatus = "auto_approved";
+  }
+
+  // Re-check the edit guard on write: an edit may land while analysis runs
+  const [updated] = await db
+    .update(comments)
+    .set({
+      safetyAssessment: safety,
+      moderationStatus,
+      positivityScore,
+    })
+    .where(and(eq(comments.id, commentId), isNull(comments.deletedAt), notEditedSince))
+    .returning({ id: comments.id });
+  if (!updated) return null;
+
+  if (!safety.isSafe) {
+    const queueItemId = await addToModerationQueue(
+      commentId,
+      "comment",
+      safety.flags.join(", "),
+      safety.riskLevel === "high" ? "urgent" : "high"
+    );
+    if (moderationStatus === "rejected") {
+      await strikeAutoRejection(actorId, "comment", commentId, queueItemId, safety.flags);
+    }
+  }
+
+  await db.insert(auditLog).values({
+    action: moderationStatus === "auto_approved" ? "publish" : "moderate",
+    actorId,
+    contentId: commentId,
+    contentType: "comment",
+    changes: {
+      safety,
+      moderationStatus,
+      positivityScore,
+    },
+  });
+
+  // Approved comments simply appear; authors only hear about held or rejected ones
+  if (moderationStatus !== "auto_approved") {
+    await notifyModerationOutcome(actorId, commentId, "comment", moderationStatus);
+  } else {
+    await notifyCommentPublished(commentId);
+  }
+
+  return moderationStatus;
+}
+
+async function flagCommentProcessingError(commentId: number, error: unknown): Promise<void> {
+  const [comment] = await db
+    .update(comments)
+    .set({ moderationStatus: "requires_review" })
+    .where(eq(comments.id, commentId))
+    .returning({ authorId: comments.authorId });
+
+  await addToModerationQueue(
+    commentId,
+    "comment",
+    `Processing error: ${error instanceof Error ? error.message : "Unknown error"}`,
+    "high"
+  );
+
+  if (comment) {
+    await notifyModerationOutcome(comment.authorId, commentId, "comment", "requires_review");
+  }
+}
+
+// ── Durable analysis jobs ───────────────────────────────────
+
+export async function enqueueVideoAnalysis(payload: VideoAnalysisPayload, tx?: Transaction): Promise<void> {
+  await enqueueJob("analyze_video", { ...payload }, { tx });
+}
+
+export async function enqueuePostAnalysis(payload: PostAnalysisPayload, tx?: Transaction): Promise<void> {
+  await enqueueJob("analyze_post", { ...payload }, { tx });
+}
+
+export async function enqueueCommentAnalysis(payload: CommentAnalysisPayload): Promise<void> {
+  await enqueueJob("analyze_comment", { ...payload });
+}
+
+// Failed attempts are retried by the queue; once attempts are exhausted the
+// content is flagged for manual review instead of staying "Under Review"
+export function registerModerationJobHandlers(): void {
+  registerJobHandler<VideoAnalysisPayload>("analyze_video", {
+    run: async (p) => {
+      await analyzeVideo(p.videoId, p.title, p.description, p.videoUrl, p.actorId);
+      invalidateFeedCache();
+      console.log(`[Content] Video ${p.videoId} processing complete`);
+    },
+    onDead: async (p, _job, error) => {
+      await flagVideoProcessingError(p.videoId, error);
+    },
+  });
+
+  registerJobHandler<PostAnalysisPayload>("analyze_post", {
+    run: async (p) => {
+      await analyzePost(p.postId, p.content, p.actorId);
+      invalidateFeedCache();
+      console.log(`[Content] Post ${p.postId} processing complete`);
+    },
+    onDead: async (p, _job, error) => {
+      await flagPostProcessingError(p.postId, error);
+    },
+  });
+
+  registerJobHandler<CommentAnalysisPayload>("analyze_comment", {
+    run: async (p, job) => {
+      const status = await analyzeComment(p.commentId, job.createdAt);
+      if (status === null) {
+        console.log(`[Content] Comment ${p.commentId} changed since job ${job.id} was queued, skipping`);
+      }
+    },
+    onDead: async (p, _job, error) => {
+      await flagCommentProcessingError(p.commentId, error);
+    },
+  });
+}
+
+// ── Author edits ────────────────────────────────────────────
+
+export type CommentEditCheck = "editable" | "rejected" | "in_review";
+
+// Authors may edit published comments and comments a moderator sent back with
+// request_edits. Rejected comments stay rejected (appeal instead), and comments
+// with an open queue item wait for the moderator so the edit can't race the decision.
+export async function checkCommentEditable(
+  commentId: number,
+  moderationStatus: ModerationStatus
+): Promise<CommentEditCheck> {
+  if (moderationStatus === "rejected") return "rejected";
+
+  const [open] = await db
+    .select({ id: moderationQueue.id })
+    .from(moderationQueue)
+    .where(
+      and(
+        eq(moderationQueue.contentId, commentId),
+        eq(moderationQueue.contentType, "comment"),
+        ne(moderationQueue.status, "resolved")
+      )
+    )
+    .limit(1);
+  if (open) return "in_review";
+
+  if (moderationStatus === "auto_approved") return "editable";
+
+  const [latest] = await db
+    .select({ action: auditLog.action })
+    .from(auditLog)
+    .where(and(eq(auditLog.contentId, commentId), eq(auditLog.contentType, "comment")))
+    .orderBy(desc(auditLog.id))
+    .limit(1);
+  return latest?.action === "request_edits" ? "editable" : "in_review";
+}
+
+// ── Moderator decisions ─────────────────────────────────────
+
+type ContentDecision = Exclude<ModerationDecision, "escalate">;
+
+interface ContentState {
+  moderationStatus: ModerationStatus;
+  uploadStatus: UploadStatus;
+  ageRestricted: boolean;
+}
+
+const contentStates: Record<ContentDecision, ContentState> = {
+  approved: { moderationStatus: "auto_approved", uploadStatus: "Published", ageRestricted: false },
+  rejected: { moderationStatus: "rejected", uploadStatus: "Flagged", ageRestricted: false },
+  // Hidden until the author edits it (comments only; the edit re-runs analysis)
+  request_edits: { moderationStatus: "requires_review", uploadStatus: "Under Review", ageRestricted: false },
+  age_restrict: { moderationStatus: "auto_approved", uploadStatus: "Published", ageRestricted: true },
+};
+
+function auditActionFor(decision: ModerationDecision, targetType: ModerationTargetType): AuditAction {
+  switch (decision) {
+    case "approved":
+      return targetType === "user" ? "moderate" : "publish";
+    case "rejected":
+      return "reject";
+    default:
+      return decision;
+  }
+}
+
+// Apply the decision to the content row and return its author and prior state.
+// Also used by appeals to restore overturned content.
+export async function applyContentDecision(
+  tx: Transaction,
+  item: Pick<ModerationQueueRecord, "contentType" | "contentId">,
+  decision: ContentDecision,
   notes: string | undefined,
   moderatorId: string
-): Promise<void> {
-  const moderationStatus: ModerationStatus = decision === "approved" ? "auto_approved" : "rejected";
-  const uploadStatus = decision === "approved" ? "Published" : "Flagged";
+): Promise<{ authorId: string | null; previous: Record<string, unknown> }> {
+  const state = contentStates[decision];
+  const contentId = item.contentId!;
 
-  if (contentType === "video") {
-    await db
-      .update(videos)
-      .set({
-        moderationStatus,
-        uploadStatus,
-        moderationNotes: notes,
-        moderatedBy: moderatorId,
-        moderatedAt: new Date(),
+  if (item.contentType === "video") {
+    const [current] = await tx
+      .select({
+        authorId: videos.createdBy,
+        moderationStatus: videos.moderationStatus,
+        uploadStatus: videos.uploadStatus,
+        ageRestricted: videos.ageRestricted,
       })
+      .from(videos)
       .where(eq(videos.id, contentId));
-  } else {
-    await db
-      .update(posts)
-      .set({
-        moderationStatus,
-        uploadStatus,
+    await tx
+      .update(videos)
+      .set({ ...state, moderationNotes: notes, moderatedBy: moderatorId, moderatedAt: new Date() })
+      .where(eq(videos.id, contentId));
+    const { authorId, ...previous } = current ?? { authorId: null };
+    return { authorId, previous };
+  }
+
+  if (item.contentType === "post") {
+    const [current] = await tx
+      .select({
+        authorId: posts.authorId,
+        moderationStatus: posts.moderationStatus,
+        uploadStatus: posts.uploadStatus,
+        ageRestricted: posts.ageRestricted,
       })
+      .from(posts)
       .where(eq(posts.id, contentId));
+    await tx.update(posts).set(state).where(eq(posts.id, contentId));
+    const { authorId, ...previous } = current ?? { authorId: null };
+    return { authorId, previous };
   }
 
-  // Update moderation queue
-  await db
-    .update(moderationQueue)
-    .set({ status: "resolved" })
-    .where(eq(moderationQueue.contentId, contentId));
+  // Comments only carry a moderation status
+  const [current] = await tx
+    .select({ authorId: comments.authorId, moderationStatus: comments.moderationStatus })
+    .from(comments)
+    .where(eq(comments.id, contentId));
+  await tx.update(comments).set({ moderationStatus: state.moderationStatus }).where(eq(comments.id, contentId));
+  const { authorId, ...previous } = current ?? { authorId: null };
+  return { authorId, previous };
+}
 
-  // Create audit log
-  await db.insert(auditLog).values({
-    action: decision === "approved" ? "publish" : "reject",
+export type DecisionResult =
+  | { status: "decided"; item: ModerationQueueRecord }
+  | { status: "not_found" | "resolved" | "invalid_decision" | "appeal_pending" }
+  | { status: "claimed_by_other"; claimedBy: string }
+  | { status: "assigned_to_other"; assignedTo: string };
+
+// Decide one queue item. Escalation keeps it open at urgent priority for
+// another reviewer; every other decision resolves it and its reports.
+export async function decideQueueItem(
+  itemId: number,
+  decision: ModerationDecision,
+  notes: string | undefined,
+  moderatorId: string
+): Promise<DecisionResult> {
+  const outcome = await db.transaction((tx) => decideInTransaction(tx, itemId, decision, notes, moderatorId, null));
+  if (outcome.suspendedUserId) disconnectUser(outcome.suspendedUserId);
+  if (outcome.result.status === "decided") {
+    await afterDecision(outcome.result.item, decision, notes, outcome.authorId);
+  }
+  return outcome.result;
+}
+
+interface DecisionOutcome {
+  result: DecisionResult;
+  authorId: string | null;
+  // Strike a batch decision defers, so the batch can issue one per offender
+  strike?: StrikeInput;
+  // Offender the decision's strike suspended, to disconnect after commit
+  suspendedUserId?: string;
+}
+
+async function decideInTransaction(
+  tx: Transaction,
+  itemId: number,
+  decision: ModerationDecision,
+  notes: string | undefined,
+  moderatorId: string,
+  batchId: string | null
+): Promise<DecisionOutcome> {
+  // Lock the item so two moderators can't decide it at once
+  const [item] = await tx
+    .select()
+    .from(moderationQueue)
+    .where(eq(moderationQueue.id, itemId))
+    .for("update");
+  if (!item) return { result: { status: "not_found" }, authorId: null };
+  if (item.status === "resolved") return { result: { status: "resolved" }, authorId: null };
+  if (
+    item.status === "in_review" &&
+    item.claimedBy &&
+    item.claimedBy !== moderatorId &&
+    item.claimExpiresAt &&
+    item.claimExpiresAt > new Date()
+  ) {
+    return { result: { status: "claimed_by_other", claimedBy: item.claimedBy }, authorId: null };
+  }
+  // Same rule as claiming: an assigned item is that moderator's to decide
+  if (item.assignedTo && item.assignedTo !== moderatorId) {
+    return { result: { status: "assigned_to_other", assignedTo: item.assignedTo }, authorId: null };
+  }
+  if (!allowedDecisions[item.contentType].includes(decision)) {
+    return { result: { status: "invalid_decision" }, authorId: null };
+  }
+  // A pending appeal owns the content's fate; the appeal reviewer decides it
+  if (decision !== "escalate" && item.contentType !== "user") {
+    const [appeal] = await tx
+      .select({ id: appeals.id })
+      .from(appeals)
+      .where(
+        and(
+          eq(appeals.contentType, item.contentType),
+          eq(appeals.contentId, item.contentId!),
+          eq(appeals.status, "pending")
+        )
+      )
+      .limit(1);
+    if (appeal) return { result: { status: "appeal_pending" }, authorId: null };
+  }
+
+  const previousQueue = {
+    status: item.status,
+    priority: item.priority,
+    assignedTo: item.assignedTo,
+    claimedBy: item.claimedBy,
+  };
+
+  let authorId: string | null = null;
+  let previousContent: Record<string, unknown> = {};
+  let updated: ModerationQueueRecord;
+  let strike: StrikeInput | undefined;
+  let suspendedUserId: string | undefined;
+
+  if (decision === "escalate") {
+    [updated] = await tx
+      .update(moderationQueue)
+      .set({
+        priority: "urgent",
+        status: "pending",
+        assignedTo: null,
+        assignedAt: null,
+        claimedBy: null,
+        claimExpiresAt: null,
+      })
+      .where(eq(moderationQueue.id, itemId))
+      .returning();
+  } else {
+    if (item.contentType !== "user") {
+      ({ authorId, previous: previousContent } = await applyContentDecision(tx, item, decision, notes, moderatorId));
+    }
+    [updated] = await tx
+      .update(moderationQueue)
+      .set({ status: "resolved", resolvedAt: new Date(), claimExpiresAt: null })
+      .where(eq(moderationQueue.id, itemId))
+      .returning();
+
+    // Publishing the content clears any strike the AI issued when it rejected it
+    if (item.contentType !== "user" && (decision === "approved" || decision === "age_restrict")) {
+      await revokeContentStrikes(tx, item.contentType, item.contentId!);
+    }
+
+    // Rejections count against the creator (or reported user)
+    const offenderId = item.targetUserId ?? authorId;
+    if (decision === "rejected" && offenderId) {
+      strike = {
+        userId: offenderId,
+        source: item.contentType === "user" || item.reportCount > 0 ? "report_upheld" : "content_rejected",
+        contentType: item.contentType,
+        contentId: item.contentId,
+        queueItemId: itemId,
+        issuedBy: moderatorId,
+        reason: notes ?? item.aiFlaggedReason,
+      };
+      if (!batchId && (await issueStrike(tx, strike)).suspended) suspendedUserId = offenderId;
+    }
+  }
+
+  await tx.insert(auditLog).values({
+    action: auditActionFor(decision, item.contentType),
     actorId: moderatorId,
-    contentId,
-    contentType,
-    changes: { decision, notes },
+    contentId: item.contentId,
+    contentType: item.contentType === "user" ? null : item.contentType,
+    targetUserId: item.targetUserId ?? authorId,
+    batchId,
+    changes: {
+      queueItemId: itemId,
+      decision,
+      notes,
+      previous: { ...previousContent, queue: previousQueue },
+    },
   });
+
+  return { result: { status: "decided", item: updated }, authorId, strike: batchId ? strike : undefined, suspendedUserId };
+}
+
+// Close the item's reports and tell the author, once the decision is committed
+async function afterDecision(
+  item: ModerationQueueRecord,
+  decision: ModerationDecision,
+  notes: string | undefined,
+  authorId: string | null
+): Promise<void> {
+  if (decision === "escalate") return;
+
+  await resolveReports(
+    { type: item.contentType, contentId: item.contentId, userId: item.targetUserId },
+    decision === "approved" ? "no_violation" : "actioned"
+  );
+  if (authorId && item.contentType !== "user") {
+    await notifyModerationDecision(authorId, item.contentId!, item.contentType, decision, notes);
+  }
+  // Both publish the content
+  const published = decision === "approved" || decision === "age_restrict";
+  if (published && item.contentType === "comment") {
+    await notifyCommentPublished(item.contentId!);
+  }
+  if (published && item.contentType === "post" && authorId) {
+    checkAchievements(authorId);
+  }
+}
+
+// ── Bulk decisions ──────────────────────────────────────────
+
+export type BulkItemResult = { id: number } & (
+  | { status: "decided" }
+  | Exclude<DecisionResult, { status: "decided" }>
+);
+
+export interface BulkDecisionResult {
+  batchId: string;
+  decided: number;
+  results: BulkItemResult[];
+}
+
+// Which queue items a bulk decision applies to: explicit ids, or every open
+// item matching a filter (content by one author, or an AI flag such as api_error)
+export type BulkSelection =
+  | { itemIds: number[] }
+  | { filter: { authorId?: string; flag?: string } };
+
+async function selectBulkItems(selection: BulkSelection): Promise<number[]> {
+  if ("itemIds" in selection) return Array.from(new Set(selection.itemIds));
+
+  const { authorId, flag } = selection.filter;
+  const conditions: SQL[] = [ne(moderationQueue.status, "resolved")];
+  if (authorId) {
+    conditions.push(
+      or(
+        eq(moderationQueue.targetUserId, authorId),
+        and(
+          eq(moderationQueue.contentType, "video"),
+          inArray(moderationQueue.contentId, db.select({ id: videos.id }).from(videos).where(eq(videos.createdBy, authorId)))
+        ),
+        and(
+          eq(moderationQueue.contentType, "post"),
+          inArray(moderationQueue.contentId, db.select({ id: posts.id }).from(posts).where(eq(posts.authorId, authorId)))
+        ),
+        and(
+          eq(moderationQueue.contentType, "comment"),
+          inArray(moderationQueue.contentId, db.select({ id: comments.id }).from(comments).where(eq(comments.authorId, authorId)))
+        )
+      )!
+    );
+  }
+  if (flag) {
+    // aiFlaggedReason holds the safety flags joined with ", "
+    conditions.push(sql`${flag} = ANY(string_to_array(${moderationQueue.aiFlaggedReason}, ', '))`);
+  }
+
+  const rows = await db
+    .select({ id: moderationQueue.id })
+    .from(moderationQueue)
+    .where(and(...conditions))
+    .orderBy(moderationQueue.createdAt)
+    .limit(BULK_DECISION_LIMIT);
+  return rows.map((r) => r.id);
+}
+
+// Decide many queue items in one transaction. Items that can't be decided
+// (resolved, claimed by someone else, ...) are skipped and reported; the rest
+// commit together, and their audit entries share one batch id.
+export async function decideQueueItems(
+  selection: BulkSelection,
+  decision: ModerationDecision,
+  notes: string | undefined,
+  moderatorId: string
+): Promise<BulkDecisionResult> {
+  const batchId = randomUUID();
+  // Lock in id order so overlapping batches can't deadlock
+  const itemIds = (await selectBulkItems(selection)).sort((a, b) => a - b);
+
+  const { outcomes, suspendedUserIds } = await db.transaction(async (tx) => {
+    const decided: { id: number; outcome: DecisionOutcome }[] = [];
+    for (const id of itemIds) {
+      decided.push({ id, outcome: await decideInTransaction(tx, id, decision, notes, moderatorId, batchId) });
+    }
+
+    // A batch is one moderation action: each offender gets at most one strike
+    // for it, tied to the batch so it is revoked only when all of its items are
+    const strikesByOffender = new Map<string, StrikeInput[]>();
+    for (const { outcome } of decided) {
+      if (!outcome.strike) continue;
+      const list = strikesByOffender.get(outcome.strike.userId) ?? [];
+      list.push(outcome.strike);
+      strikesByOffender.set(outcome.strike.userId, list);
+    }
+    const suspended: string[] = [];
+    for (const [first, ...rest] of Array.from(strikesByOffender.values())) {
+      const reason = rest.length > 0
+        ? `${first.reason ?? "Rejected"} (bulk rejection of ${rest.length + 1} items, batch ${batchId})`
+        : first.reason;
+      if ((await issueStrike(tx, { ...first, batchId, reason })).suspended) suspended.push(first.userId);
+    }
+    return { outcomes: decided, suspendedUserIds: suspended };
+  });
+  for (const userId of suspendedUserIds) disconnectUser(userId);
+
+  const results: BulkItemResult[] = [];
+  for (const { id, outcome } of outcomes) {
+    const { result, authorId } = outcome;
+    if (result.status === "decided") {
+      await afterDecision(result.item, decision, notes, authorId);
+      results.push({ id, status: "decided" });
+    } else {
+      results.push({ id, ...result });
+    }
+  }
+
+  const count = results.filter((r) => r.status === "decided").length;
+  console.log(`[Moderation] Batch ${batchId}: ${decision} on ${count}/${itemIds.length} items`);
+  return { batchId, decided: count, results };
 }
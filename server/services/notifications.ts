@@ -0,0 +1,271 @@
+// Notifications Service
+// Stores per-user notifications and pushes them over the WebSocket in real time.
+// Delivery is best-effort: a failure here never fails the action that caused it.
+import { db } from "../db";
+import { notifications, type Notification } from "@shared/schema";
+import { users } from "@shared/models/auth";
+import { eq, and, or, desc, lt, gt, isNull, inArray, count } from "drizzle-orm";
+import type { AppealOutcome, ContentType, ModerationDecision, ModerationStatus, ModerationTargetType, NotificationType, ReportResolution } from "@shared/types";
+import { sendToUser } from "../websocket/friends-watching";
+
+export interface NotificationInput {
+  userId: string;
+  actorId?: string | null;
+  type: NotificationType;
+  contentId?: number | null;
+  contentType?: ContentType | null;
+  message: string;
+}
+
+export async function createNotification(input: NotificationInput): Promise<Notification | null> {
+  // Users are never notified about their own actions
+  if (input.actorId && input.actorId === input.userId) return null;
+
+  try {
+    const [notification] = await db.insert(notifications).values({
+      userId: input.userId,
+      actorId: input.actorId ?? null,
+      type: input.type,
+      contentId: input.contentId ?? null,
+      contentType: input.contentType ?? null,
+      message: input.message,
+    }).returning();
+
+    sendToUser(input.userId, {
+      type: "notification",
+      notification,
+      unreadCount: await getUnreadCount(input.userId),
+    });
+    return notification;
+  } catch (error) {
+    console.error(`[Notifications] Failed to create ${input.type} notification:`, error);
+    return null;
+  }
+}
+
+async function getActorName(actorId: string): Promise<string> {
+  try {
+    const [actor] = await db
+      .select({ displayName: users.displayName, firstName: users.firstName })
+      .from(users)
+      .where(eq(users.id, actorId));
+    return actor?.displayName || actor?.firstName || "Someone";
+  } catch {
+    return "Someone";
+  }
+}
+
+// ── Event helpers ───────────────────────────────────────────
+
+// Re-sparking a post (remove, then spark again) doesn't notify again while the
+// last spark notification is unread or recent
+const SPARK_RENOTIFY_MS = 24 * 3_600_000;
+
+async function hasPendingSparkNotification(postAuthorId: string, actorId: string, postId: number): Promise<boolean> {
+  try {
+    const [existing] = await db
+      .select({ id: notifications.id })
+      .from(notifications)
+      .where(
+        and(
+          eq(notifications.userId, postAuthorId),
+          eq(notifications.actorId, actorId),
+          eq(notifications.type, "spark"),
+          eq(notifications.contentId, postId),
+          or(isNull(notifications.readAt), gt(notifications.createdAt, new Date(Date.now() - SPARK_RENOTIFY_MS)))
+        )
+      )
+      .limit(1);
+    return !!existing;
+  } catch (error) {
+    console.error("[Notifications] Failed to check for an earlier spark notification:", error);
+    return true;
+  }
+}
+
+export async function notifySpark(postAuthorId: string, actorId: string, postId: number, label: string): Promise<void> {
+  if (postAuthorId === actorId) return;
+  if (await hasPendingSparkNotification(postAuthorId, actorId, postId)) return;
+  await createNotification({
+    userId: postAuthorId,
+    actorId,
+    type: "spark",
+    contentId: postId,
+    contentType: "post",
+    message: `${await getActorName(actorId)} sent ${label} to your post`,
+  });
+}
+
+export async function notifyComment(
+  recipientId: string,
+  actorId: string,
+  postId: number,
+  isReply: boolean
+): Promise<void> {
+  if (recipientId === actorId) return;
+  await createNotification({
+    userId: recipientId,
+    actorId,
+    type: isReply ? "reply" : "comment",
+    contentId: postId,
+    contentType: "post",
+    message: isReply
+      ? `${await getActorName(actorId)} replied to your comment`
+      : `${await getActorName(actorId)} commented on your post`,
+  });
+}
+
+export async function notifyFollow(followingId: string, followerId: string): Promise<void> {
+  await createNotification({
+    userId: followingId,
+    actorId: followerId,
+    type: "follow",
+    message: `${await getActorName(followerId)} started following you`,
+  });
+}
+
+// Tell the author how moderation (automatic or human) resolved their content
+export async function notifyModerationOutcome(
+  authorId: string,
+  contentId: number,
+  contentType: ContentType,
+  status: ModerationStatus,
+  notes?: string
+): Promise<void> {
+  const noun = contentType === "video" ? "video" : contentType === "post" ? "post" : "comment";
+  const byStatus: Record<ModerationStatus, { type: NotificationType; message: string }> = {
+    auto_approved: { type: "content_published", message: `Your ${noun} has been published` },
+    requires_review: { type: "content_under_review", message: `Your ${noun} is being reviewed by a moderator` },
+    rejected: { type: "content_rejected", message: `Your ${noun} was not approved` },
+  };
+  const { type, message } = byStatus[status];
+
+  await createNotification({
+    userId: authorId,
+    type,
+    contentId,
+    contentType,
+    message: notes && status === "rejected" ? `${message}: ${notes}` : message,
+  });
+}
+
+// Outcome of a moderator decision; escalation changes nothing the author can see
+export async function notifyModerationDecision(
+  authorId: string,
+  contentId: number,
+  contentType: ContentType,
+  decision: ModerationDecision,
+  notes?: string
+): Promise<void> {
+  switch (decision) {
+    case "approved":
+      return notifyModerationOutcome(authorId, contentId, contentType, "auto_approved");
+    case "rejected":
+      return notifyModerationOutcome(authorId, contentId, contentType, "rejected", notes);
+    case "request_edits":
+      await createNotification({
+        userId: authorId,
+        type: "content_edits_requested",
+        contentId,
+        contentType,
+        message: `A moderator asked for changes to your ${contentType}: ${notes}`,
+      });
+      return;
+    case "age_restrict":
+      await createNotification({
+        userId: authorId,
+        type: "content_age_restricted",
+        contentId,
+        contentType,
+        message: `Your ${contentType} has been published with a content warning`,
+      });
+      return;
+    case "escalate":
+      return;
+  }
+}
+
+export async function notifyAppealDecided(
+  appellantId: string,
+  contentId: number,
+  contentType: ContentType,
+  outcome: AppealOutcome,
+  notes?: string
+): Promise<void> {
+  const message = outcome === "overturned"
+    ? `Your appeal was accepted and your ${contentType} has been restored`
+    : `Your appeal was reviewed and the decision on your ${contentType} stands`;
+  await createNotification({
+    userId: appellantId,
+    type: outcome === "overturned" ? "appeal_overturned" : "appeal_upheld",
+    contentId,
+    contentType,
+    message: notes ? `${message}: ${notes}` : message,
+  });
+}
+
+export async function notifyReportResolved(
+  reporterId: string,
+  targetType: ModerationTargetType,
+  contentId: number | null,
+  resolution: ReportResolution
+): Promise<void> {
+  const noun = targetType === "user" ? "account" : targetType;
+  await createNotification({
+    userId: reporterId,
+    type: "report_resolved",
+    contentId: targetType === "user" ? null : contentId,
+    contentType: targetType === "user" ? null : targetType,
+    message: resolution === "actioned"
+      ? `Thanks for your report. We reviewed the ${noun} you reported and took action`
+      : `We reviewed the ${noun} you reported and found it doesn't break our community guidelines`,
+  });
+}
+
+// ── Reading ─────────────────────────────────────────────────
+
+export async function listNotifications(
+  userId: string,
+  options: { unread?: boolean; before?: number; limit?: number } = {}
+): Promise<Notification[]> {
+  return await db
+    .select()
+    .from(notifications)
+    .where(
+      and(
+        eq(notifications.userId, userId),
+        options.unread ? isNull(notifications.readAt) : undefined,
+        options.before ? lt(notifications.id, options.before) : undefined
+      )
+    )
+    .orderBy(desc(notifications.id))
+    .limit(options.limit ?? 30);
+}
+
+export async function getUnreadCount(userId: string): Promise<number> {
+  const [row] = await db
+    .select({ count: count() })
+    .from(notifications)
+    .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+  return row?.count ?? 0;
+}
+
+// Marks the given notifications (or all of them) read; returns the new unread count
+export async function markNotificationsRead(userId: string, ids?: number[]): Promise<number> {
+  if (ids && ids.length === 0) return await getUnreadCount(userId);
+
+  await db
+    .update(notifications)
+    .set({ readAt: new Date() })
+    .where(
+      and(
+        eq(notifications.userId, userId),
+        isNull(notifications.readAt),
+        ids ? inArray(notifications.id, ids) : undefined
+      )
+    );
+
+  const unreadCount = await getUnreadCount(userId);
+  sendToUser(userId, { type: "notification_read", unreadCount });
+  return unreadCount;
+}
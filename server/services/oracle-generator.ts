@@ -0,0 +1,375 @@
+// Oracle Generator Service
+// Builds daily and tarot readings from the user's chakra, spiritual path,
+// recent posts and element engagement. Uses OpenAI when configured and a
+// deterministic local template engine otherwise (same user + day = same reading).
+import { db } from "../db";
+import { posts, videos, contentEvents, chakraLabels, chakraTypes, type ChakraType } from "@shared/schema";
+import { users } from "@shared/models/auth";
+import { eq, and, desc, sql, count } from "drizzle-orm";
+import type { ElementCategory } from "@shared/types";
+import { costMonitor } from "../lib/cost-monitor";
+
+const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
+const ORACLE_MODEL = "gpt-4o-mini";
+const ENGAGEMENT_WINDOW_DAYS = 30;
+const RECENT_POST_LIMIT = 5;
+
+export interface OracleContext {
+  userId: string;
+  displayName: string | null;
+  dominantChakra: ChakraType | null;
+  spiritualPath: string | null;
+  recentPosts: string[];
+  elementEngagement: Partial<Record<ElementCategory, number>>;
+  topElement: ElementCategory | null;
+}
+
+export interface OracleCard {
+  name: string;
+  reversed: boolean;
+  position: string;
+  meaning?: string;
+}
+
+export interface GeneratedReading {
+  content: string;
+  chakraFocus: ChakraType;
+  source: "ai" | "template";
+}
+
+const ORACLE_PROMPT = `You are the oracle of a spiritual wellness platform. Write a short, warm, uplifting reading (3-4 sentences) for the seeker described below.
+
+Guidelines:
+- Speak directly to the seeker in the second person
+- Weave in their focus chakra, spiritual path and the elements they engage with most
+- Echo themes from their recent posts without quoting them
+- Never predict harm, illness or misfortune; keep it encouraging and grounded
+
+Respond in JSON format:
+{
+  "reading": "The reading text"
+}`;
+
+// Elements map to the chakra whose qualities they share
+const ELEMENT_CHAKRA: Record<ElementCategory, ChakraType> = {
+  Water: "sacral",
+  Fire: "solar_plexus",
+  Earth: "root",
+  Air: "heart",
+  Spiritual: "crown",
+};
+
+// ── Context ─────────────────────────────────────────────────
+
+export async function buildOracleContext(userId: string): Promise<OracleContext> {
+  const [user] = await db
+    .select({
+      displayName: users.displayName,
+      dominantChakra: users.dominantChakra,
+      spiritualPath: users.spiritualPath,
+    })
+    .from(users)
+    .where(eq(users.id, userId));
+
+  const recent = await db
+    .select({ content: posts.content })
+    .from(posts)
+    .where(eq(posts.authorId, userId))
+    .orderBy(desc(posts.createdAt))
+    .limit(RECENT_POST_LIMIT);
+
+  const elementEngagement = await getElementEngagement(userId);
+  const topElement = (Object.entries(elementEngagement) as [ElementCategory, number][])
+    .sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+
+  const dominantChakra = chakraTypes.includes(user?.dominantChakra as ChakraType)
+    ? (user!.dominantChakra as ChakraType)
+    : null;
+
+  return {
+    userId,
+    displayName: user?.displayName ?? null,
+    dominantChakra,
+    spiritualPath: user?.spiritualPath ?? null,
+    recentPosts: recent.map((p) => p.content),
+    elementEngagement,
+    topElement,
+  };
+}
+
+// Views and engagement per element over the recent window
+async function getElementEngagement(userId: string): Promise<Partial<Record<ElementCategory, number>>> {
+  const recentEvents = and(
+    eq(contentEvents.userId, userId),
+    sql`${contentEvents.createdAt} > NOW() - make_interval(days => ${ENGAGEMENT_WINDOW_DAYS})`
+  );
+
+  const [videoRows, postRows] = await Promise.all([
+    db
+      .select({ element: videos.elementCategory, count: count() })
+      .from(contentEvents)
+      .innerJoin(videos, and(eq(contentEvents.contentType, "video"), eq(contentEvents.contentId, videos.id)))
+      .where(recentEvents)
+      .groupBy(videos.elementCategory),
+    db
+      .select({ element: posts.elementCategory, count: count() })
+      .from(contentEvents)
+      .innerJoin(posts, and(eq(contentEvents.contentType, "post"), eq(contentEvents.contentId, posts.id)))
+      .where(recentEvents)
+      .groupBy(posts.elementCategory),
+  ]);
+
+  const totals: Partial<Record<ElementCategory, number>> = {};
+  for (const row of [...videoRows, ...postRows]) {
+    if (!row.element) continue;
+    totals[row.element] = (totals[row.element] ?? 0) + row.count;
+  }
+  return totals;
+}
+
+function resolveChakraFocus(context: OracleContext, seed: number): ChakraType {
+  if (context.dominantChakra) return context.dominantChakra;
+  if (context.topElement) return ELEMENT_CHAKRA[context.topElement];
+  return chakraTypes[seed % chakraTypes.length];
+}
+
+function describeContext(context: OracleContext, chakraFocus: ChakraType): string {
+  const elements = Object.entries(context.elementEngagement)
+    .sort((a, b) => b[1] - a[1])
+    .map(([element, n]) => `${element} (${n})`)
+    .join(", ");
+  const recent = context.recentPosts
+    .map((p) => `- ${p.slice(0, 200)}`)
+    .join("\n");
+
+  return [
+    `Name: ${context.displayName || "Seeker"}`,
+    `Focus chakra: ${chakraLabels[chakraFocus]}`,
+    `Spiritual path: ${context.spiritualPath || "Not shared"}`,
+    `Element engagement (last ${ENGAGEMENT_WINDOW_DAYS} days): ${elements || "None yet"}`,
+    `Recent posts:\n${recent || "- None yet"}`,
+  ].join("\n");
+}
+
+// ── Generation ──────────────────────────────────────────────
+
+export async function generateDailyReading(userId: string, dayKey: string): Promise<GeneratedReading> {
+  const context = await buildOracleContext(userId);
+  const seed = hashSeed(`${userId}:${dayKey}`);
+  const chakraFocus = resolveChakraFocus(context, seed);
+
+  const aiReading = await requestReading(
+    `Daily reading for ${dayKey}.\n\n${describeContext(context, chakraFocus)}`,
+    "oracle_daily"
+  );
+  if (aiReading) {
+    return { content: aiReading, chakraFocus, source: "ai" };
+  }
+
+  return { content: templateDailyReading(context, chakraFocus, seed), chakraFocus, source: "template" };
+}
+
+export async function generateTarotReading(
+  userId: string,
+  cards: OracleCard[],
+  spreadName = "Three-card spread"
+): Promise<GeneratedReading> {
+  const context = await buildOracleContext(userId);
+  const seed = hashSeed(`${userId}:${cards.map((c) => `${c.name}${c.reversed ? "R" : ""}`).join("|")}`);
+  const chakraFocus = resolveChakraFocus(context, seed);
+
+  const spread = cards
+    .map((c) => `${c.position}: ${c.name}${c.reversed ? " (reversed)" : ""}${c.meaning ? ` - ${c.meaning}` : ""}`)
+    .join("\n");
+  const aiReading = await requestReading(
+    `Interpret this tarot spread (${spreadName}) for the seeker, touching on each position.\n${spread}\n\n${describeContext(context, chakraFocus)}`,
+    "oracle_tarot"
+  );
+  if (aiReading) {
+    return { content: aiReading, chakraFocus, source: "ai" };
+  }
+
+  return { content: templateTarotReading(context, cards, chakraFocus, seed), chakraFocus, source: "template" };
+}
+
+async function requestReading(prompt: string, operation: string): Promise<string | null> {
+  if (!OPENAI_API_KEY) return null;
+  if (costMonitor.shouldBlock()) {
+    console.warn(`[Oracle] OpenAI budget exhausted, using template reading for ${operation}`);
+    return null;
+  }
+
+  try {
+    const response = await fetch("https://api.openai.com/v1/chat/completions", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${OPENAI_API_KEY}`,
+      },
+      body: JSON.stringify({
+        model: ORACLE_MODEL,
+        messages: [
+          { role: "system", content: ORACLE_PROMPT },
+          { role: "user", content: prompt },
+        ],
+        response_format: { type: "json_object" },
+        temperature: 0.8,
+        max_tokens: 400,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error("[Oracle] OpenAI API error:", response.status, errorText);
+      return null;
+    }
+
+    const data = await response.json();
+    if (data.usage) {
+      costMonitor.record(ORACLE_MODEL, data.usage.prompt_tokens ?? 0, data.usage.completion_tokens ?? 0, operation);
+    }
+
+    const content = data.choices?.[0]?.message?.content;
+    if (!content) return null;
+
+    const parsed = JSON.parse(content);
+    return typeof parsed.reading === "string" && parsed.reading.trim() ? parsed.reading.trim() : null;
+  } catch (error) {
+    console.error("[Oracle] Error generating reading:", error);
+    return null;
+  }
+}
+
+// ── Template engine (deterministic fallback) ────────────────
+
+const CHAKRA_OPENINGS: Record<ChakraType, string[]> = {
+  root: [
+    "Your root chakra calls you back to solid ground today.",
+    "Stability is gathering beneath your feet; your root energy is steady and strong.",
+  ],
+  sacral: [
+    "Creative waters stir in your sacral chakra today.",
+    "Your sacral energy invites you to feel fully and create freely.",
+  ],
+  solar_plexus: [
+    "A bright flame of purpose burns in your solar plexus today.",
+    "Your solar plexus glows with quiet confidence and the will to act.",
+  ],
+  heart: [
+    "Your heart chakra is wide open, ready to give and receive.",
+    "Compassion flows easily from your heart center today.",
+  ],
+  throat: [
+    "Your throat chakra hums with truths ready to be spoken.",
+    "Clear expression is your gift today; your throat energy is aligned.",
+  ],
+  third_eye: [
+    "Your third eye sharpens, revealing patterns others miss.",
+    "Intuition speaks softly but clearly through your third eye today.",
+  ],
+  crown: [
+    "Your crown chakra opens to the vastness of the universe.",
+    "A thread of divine connection runs through your crown today.",
+  ],
+};
+
+const ELEMENT_LINES: Record<ElementCategory, string[]> = {
+  Water: [
+    "The Water you have been drawn to teaches you to flow around obstacles rather than fight them.",
+    "Like the Water content you return to, let your emotions move through you and settle clear.",
+  ],
+  Fire: [
+    "The Fire you keep seeking is a sign that transformation is ready to begin.",
+    "Your pull toward Fire shows a spirit hungry for action; follow that spark.",
+  ],
+  Earth: [
+    "Your affinity for Earth reminds you that growth is patient and rooted.",
+    "The Earth energy you gather is nourishing something that will soon bloom.",
+  ],
+  Air: [
+    "The Air you move through lately is clearing space for fresh perspective.",
+    "Your attraction to Air invites new ideas to drift in; stay curious.",
+  ],
+  Spiritual: [
+    "Your devotion to Spiritual practice is deepening into lasting wisdom.",
+    "The Spiritual currents you follow are guiding you toward unity with all things.",
+  ],
+};
+
+const REFLECTION_LINES = [
+  "The intentions you have been sharing are already rippling outward.",
+  "The words you have offered the community carry more light than you realise.",
+  "What you have been expressing lately is the seed of your next chapter.",
+];
+
+const FIRST_STEP_LINES = [
+  "Sharing even one small reflection today could open an unexpected door.",
+  "Consider voicing what is in your heart; the community is ready to receive it.",
+];
+
+const CLOSINGS = [
+  "Trust the timing of your journey.",
+  "Move gently, and let your inner light lead.",
+  "You are exactly where you need to be.",
+  "Carry this energy with you and watch it multiply.",
+];
+
+function templateDailyReading(context: OracleContext, chakraFocus: ChakraType, seed: number): string {
+  const lines = [pick(CHAKRA_OPENINGS[chakraFocus], seed)];
+
+  if (context.topElement) {
+    lines.push(pick(ELEMENT_LINES[context.topElement], seed >>> 3));
+  }
+  if (context.spiritualPath) {
+    lines.push(`On your path of ${context.spiritualPath}, today favors patience and presence.`);
+  }
+  lines.push(
+    context.recentPosts.length > 0
+      ? pick(REFLECTION_LINES, seed >>> 5)
+      : pick(FIRST_STEP_LINES, seed >>> 5)
+  );
+  lines.push(pick(CLOSINGS, seed >>> 7));
+
+  return lines.join(" ");
+}
+
+function templateTarotReading(
+  context: OracleContext,
+  cards: OracleCard[],
+  chakraFocus: ChakraType,
+  seed: number
+): string {
+  const cardLines = cards.map((card) => {
+    if (card.meaning) {
+      return `${card.name}${card.reversed ? " reversed" : ""} in the ${card.position} position speaks of ${card.meaning}.`;
+    }
+    return card.reversed
+      ? `${card.name} reversed in the ${card.position} position asks you to look at what is blocked or unfinished there.`
+      : `${card.name} in the ${card.position} position brings its full energy to this part of your story.`;
+  });
+
+  const lines = [
+    `Your spread speaks through the lens of your ${chakraLabels[chakraFocus]} chakra.`,
+    ...cardLines,
+  ];
+  if (context.topElement) {
+    lines.push(pick(ELEMENT_LINES[context.topElement], seed));
+  }
+  lines.push(pick(CLOSINGS, seed >>> 3));
+
+  return lines.join(" ");
+}
+
+function pick<T>(items: T[], seed: number): T {
+  return items[Math.abs(seed) % items.length];
+}
+
+// FNV-1a 32-bit hash, used as a stable seed for template selection
+function hashSeed(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
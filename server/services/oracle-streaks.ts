@@ -0,0 +1,82 @@
+// Oracle Streaks Service
+// Tracks consecutive days with a daily oracle reading in the user's timezone.
+// Missed days can be bridged with streak freezes (see shared/streaks.ts).
+import { db } from "../db";
+import { users, type User } from "@shared/models/auth";
+import { eq } from "drizzle-orm";
+import { oracleStreakRules, streakMultiplier } from "@shared/streaks";
+import { daysBetween, localDayKey } from "../lib/timezone";
+
+export interface OracleStreak {
+  current: number;
+  longest: number;
+  freezes: number;
+  multiplier: number;
+  // Set when this reading used freezes to bridge missed days
+  freezesUsed: number;
+}
+
+function toStreak(user: Pick<User, "oracleStreak" | "longestOracleStreak" | "streakFreezes">, freezesUsed = 0): OracleStreak {
+  return {
+    current: user.oracleStreak,
+    longest: user.longestOracleStreak,
+    freezes: user.streakFreezes,
+    multiplier: streakMultiplier(user.oracleStreak),
+    freezesUsed,
+  };
+}
+
+// Count a daily reading for `dayKey`. Repeated calls for the same day are no-ops.
+export async function recordOracleDay(userId: string, dayKey: string): Promise<OracleStreak> {
+  return await db.transaction(async (tx) => {
+    const [user] = await tx.select().from(users).where(eq(users.id, userId)).for("update");
+    if (!user) throw new Error(`User ${userId} not found`);
+
+    const gap = user.lastOracleDay ? daysBetween(user.lastOracleDay, dayKey) : null;
+    // Same day, or the day moved backwards after a timezone change
+    if (gap !== null && gap <= 0) return toStreak(user);
+
+    const missed = gap === null ? 0 : gap - 1;
+    let streak = 1;
+    let freezes = user.streakFreezes;
+    let freezesUsed = 0;
+
+    if (gap !== null && missed <= freezes) {
+      streak = user.oracleStreak + 1;
+      freezes -= missed;
+      freezesUsed = missed;
+    }
+
+    if (streak % oracleStreakRules.freezeEvery === 0 && freezes < oracleStreakRules.maxFreezes) {
+      freezes++;
+    }
+
+    const [updated] = await tx
+      .update(users)
+      .set({
+        oracleStreak: streak,
+        longestOracleStreak: Math.max(user.longestOracleStreak, streak),
+        lastOracleDay: dayKey,
+        streakFreezes: freezes,
+      })
+      .where(eq(users.id, userId))
+      .returning();
+
+    if (freezesUsed > 0) {
+      console.log(`[Streaks] User ${userId} kept a ${streak}-day streak using ${freezesUsed} freeze(s)`);
+    }
+    return toStreak(updated, freezesUsed);
+  });
+}
+
+// The streak as it stands today: a gap too long for the remaining freezes
+// means it is already broken, even before the next reading resets it.
+export function currentOracleStreak(user: User, now: Date = new Date()): OracleStreak {
+  if (!user.lastOracleDay) return toStreak(user);
+
+  const missed = daysBetween(user.lastOracleDay, localDayKey(now, user.timezone)) - 1;
+  if (missed > user.streakFreezes) {
+    return toStreak({ ...user, oracleStreak: 0 });
+  }
+  return toStreak(user);
+}
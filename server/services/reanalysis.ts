@@ -0,0 +1,276 @@
+// Queue Re-analysis Service
+// Items queued only because the AI couldn't assess them (an api_error safety
+// result or a processing error) are re-checked on a schedule with exponential
+// backoff. Items that now pass are published and resolved; items that turn
+// out to need review keep their place in the queue with the real flags.
+import { db } from "../db";
+import { moderationQueue, videos, posts, comments, auditLog, type ModerationQueueRecord } from "@shared/schema";
+import { eq, and, or, ne, lt, gte, lte, isNull, sql, count } from "drizzle-orm";
+import { reanalysisRules } from "@shared/moderation";
+import type { AIAnalysisResult, ContentType, ModerationPriority, SafetyAssessment } from "@shared/types";
+import { analyzeVideoElement, analyzeTextElement } from "./content-analysis";
+import { checkContentSafety, checkVideoSafety } from "./safety-moderation";
+import { analyzePositivity } from "./positivity-analyzer";
+import { notifyModerationOutcome } from "./notifications";
+import { invalidateFeedCache } from "./feed-service";
+import { notifyCommentPublished } from "./moderation-workflow";
+import { checkAchievements } from "./achievements";
+
+const API_ERROR_FLAG = "api_error";
+
+// Queued for an AI failure rather than for anything in the content.
+// aiFlaggedReason holds the safety flags joined with ", ".
+const aiFailure = or(
+  sql`${API_ERROR_FLAG} = ANY(string_to_array(${moderationQueue.aiFlaggedReason}, ', '))`,
+  sql`${moderationQueue.aiFlaggedReason} LIKE 'Processing error:%'`
+)!;
+
+// Only items no human has touched: reported, assigned, claimed or escalated
+// items are left alone. Escalation resets an item to pending and unassigned, so
+// it is recognized by its urgent priority and by the moderator's audit entry.
+const untouched = and(
+  aiFailure,
+  eq(moderationQueue.status, "pending"),
+  ne(moderationQueue.contentType, "user"),
+  ne(moderationQueue.priority, "urgent"),
+  isNull(moderationQueue.assignedTo),
+  eq(moderationQueue.reportCount, 0),
+  sql`NOT EXISTS (
+    SELECT 1 FROM ${auditLog}
+    WHERE ${auditLog.changes}->>'queueItemId' = ${moderationQueue.id}::text
+      AND ${auditLog.actorId} IS NOT NULL
+  )`
+)!;
+
+function backoffMinutes(attempt: number): number {
+  return Math.min(reanalysisRules.baseDelayMinutes * 2 ** (attempt - 1), reanalysisRules.maxDelayMinutes);
+}
+
+interface Assessment {
+  authorId: string;
+  analysis: AIAnalysisResult | null;
+  safety: SafetyAssessment;
+  positivityScore: number;
+}
+
+// Re-run the same checks as the original upload, or null if the content is gone
+async function assess(contentType: ContentType, contentId: number): Promise<Assessment | null> {
+  if (contentType === "video") {
+    const [video] = await db.select().from(videos).where(eq(videos.id, contentId));
+    if (!video) return null;
+    const videoUrl = video.videoUrl ?? "";
+    return {
+      authorId: video.createdBy,
+      analysis: await analyzeVideoElement(videoUrl, video.title, video.description ?? undefined),
+      safety: await checkVideoSafety(video.title, video.description ?? undefined, videoUrl),
+      positivityScore: await analyzePositivity(`${video.title} ${video.description || ""}`),
+    };
+  }
+  if (contentType === "post") {
+    const [post] = await db.select().from(posts).where(eq(posts.id, contentId));
+    if (!post) return null;
+    return {
+      authorId: post.authorId,
+      analysis: await analyzeTextElement(post.content),
+      safety: await checkContentSafety(post.content, "post"),
+      positivityScore: await analyzePositivity(post.content),
+    };
+  }
+  const [comment] = await db
+    .select()
+    .from(comments)
+    .where(and(eq(comments.id, contentId), isNull(comments.deletedAt)));
+  if (!comment) return null;
+  return {
+    authorId: comment.authorId,
+    analysis: null,
+    safety: await checkContentSafety(comment.content, "post"),
+    positivityScore: await analyzePositivity(comment.content),
+  };
+}
+
+// Why the item still needs a human, or null if it can be published
+function remainingConcern(contentType: ContentType, result: Assessment): { reason: string; priority: ModerationPriority } | null {
+  if (!result.safety.isSafe) {
+    return { reason: result.safety.flags.join(", "), priority: result.safety.riskLevel === "high" ? "urgent" : "high" };
+  }
+  if (contentType === "video" && result.analysis && result.analysis.confidence < 0.5) {
+    return { reason: `Low categorization confidence: ${result.analysis.confidence}`, priority: "normal" };
+  }
+  return null;
+}
+
+type ItemOutcome = "cleared" | "flagged" | "retry" | "skipped";
+
+async function reanalyzeItem(item: ModerationQueueRecord): Promise<ItemOutcome> {
+  // Reserve the attempt up front so overlapping runs don't both take the item
+  const attempt = item.reanalysisAttempts + 1;
+  const [reserved] = await db
+    .update(moderationQueue)
+    .set({
+      reanalysisAttempts: attempt,
+      nextReanalysisAt: new Date(Date.now() + backoffMinutes(attempt) * 60_000),
+    })
+    .where(
+      and(
+        eq(moderationQueue.id, item.id),
+        eq(moderationQueue.reanalysisAttempts, item.reanalysisAttempts),
+        untouched
+      )
+    )
+    .returning({ id: moderationQueue.id });
+  if (!reserved) return "skipped";
+
+  const contentType = item.contentType as ContentType;
+  const contentId = item.contentId!;
+  const result = await assess(contentType, contentId);
+  if (!result) return "skipped";
+  if (result.safety.flags.includes(API_ERROR_FLAG)) return "retry";
+
+  const concern = remainingConcern(contentType, result);
+  if (concern) {
+    // A real finding: hand it to moderators like any other flag
+    await db
+      .update(moderationQueue)
+      .set({ aiFlaggedReason: concern.reason, priority: concern.priority, nextReanalysisAt: null })
+      .where(and(eq(moderationQueue.id, item.id), eq(moderationQueue.status, "pending")));
+    return "flagged";
+  }
+
+  const cleared = await db.transaction(async (tx) => {
+    const [current] = await tx
+      .select()
+      .from(moderationQueue)
+      .where(eq(moderationQueue.id, item.id))
+      .for("update");
+    // A moderator (or a reporter) may have got there first
+    if (!current || current.status !== "pending" || current.assignedTo || current.reportCount > 0) return false;
+
+    const { analysis, safety, positivityScore } = result;
+    if (contentType === "video") {
+      await tx
+        .update(videos)
+        .set({
+          elementCategory: analysis!.elementType,
+          aiAnalysisResult: analysis,
+          safetyAssessment: safety,
+          moderationStatus: "auto_approved",
+          uploadStatus: "Published",
+          positivityScore,
+        })
+        .where(eq(videos.id, contentId));
+    } else if (contentType === "post") {
+      await tx
+        .update(posts)
+        .set({
+          elementCategory: analysis!.elementType,
+          safetyAssessment: safety,
+          moderationStatus: "auto_approved",
+          uploadStatus: "Published",
+          positivityScore,
+        })
+        .where(eq(posts.id, contentId));
+    } else {
+      await tx
+        .update(comments)
+        .set({ safetyAssessment: safety, moderationStatus: "auto_approved", positivityScore })
+        .where(eq(comments.id, contentId));
+    }
+
+    await tx
+      .update(moderationQueue)
+      .set({ status: "resolved", resolvedAt: new Date(), nextReanalysisAt: null })
+      .where(eq(moderationQueue.id, item.id));
+
+    await tx.insert(auditLog).values({
+      action: "publish",
+      actorId: null,
+      contentId,
+      contentType,
+      changes: { queueItemId: item.id, reanalyzed: true, attempt, analysis, safety, positivityScore },
+    });
+    return true;
+  });
+  if (!cleared) return "skipped";
+
+  // Approved comments simply appear; authors only hear about held or rejected ones
+  if (contentType !== "comment") {
+    await notifyModerationOutcome(result.authorId, contentId, contentType, "auto_approved");
+  } else {
+    await notifyCommentPublished(contentId);
+  }
+  if (contentType === "post") checkAchievements(result.authorId);
+  return "cleared";
+}
+
+// ── Scheduled run ───────────────────────────────────────────
+
+export async function reanalyzeFailedItems(): Promise<Record<ItemOutcome, number>> {
+  const now = new Date();
+  const due = await db
+    .select()
+    .from(moderationQueue)
+    .where(
+      and(
+        untouched,
+        lt(moderationQueue.reanalysisAttempts, reanalysisRules.maxAttempts),
+        or(isNull(moderationQueue.nextReanalysisAt), lte(moderationQueue.nextReanalysisAt, now))
+      )
+    )
+    .orderBy(moderationQueue.createdAt)
+    .limit(reanalysisRules.batchSize);
+
+  const totals: Record<ItemOutcome, number> = { cleared: 0, flagged: 0, retry: 0, skipped: 0 };
+  for (const item of due) {
+    try {
+      totals[await reanalyzeItem(item)]++;
+    } catch (error) {
+      // The attempt is already counted; backoff decides when to try again
+      console.error(`[Reanalysis] Queue item ${item.id} failed:`, error);
+      totals.retry++;
+    }
+  }
+
+  if (totals.cleared > 0) invalidateFeedCache();
+  if (due.length > 0) {
+    console.log(
+      `[Reanalysis] ${due.length} items: ${totals.cleared} cleared, ${totals.flagged} flagged, ${totals.retry} to retry`
+    );
+  }
+  return totals;
+}
+
+export interface ReanalysisStats {
+  cleared: number;
+  clearedLast24h: number;
+  // Still to be retried
+  waiting: number;
+  // Out of attempts; left for moderators
+  exhausted: number;
+}
+
+export async function getReanalysisStats(): Promise<ReanalysisStats> {
+  const reanalyzed = and(eq(auditLog.action, "publish"), sql`${auditLog.changes}->>'reanalyzed' = 'true'`);
+  const [[cleared], [recent], [waiting], [exhausted]] = await Promise.all([
+    db.select({ count: count() }).from(auditLog).where(reanalyzed),
+    db
+      .select({ count: count() })
+      .from(auditLog)
+      .where(and(reanalyzed, gte(auditLog.timestamp, new Date(Date.now() - 86_400_000)))),
+    db
+      .select({ count: count() })
+      .from(moderationQueue)
+      .where(and(untouched, lt(moderationQueue.reanalysisAttempts, reanalysisRules.maxAttempts))),
+    db
+      .select({ count: count() })
+      .from(moderationQueue)
+      .where(and(untouched, gte(moderationQueue.reanalysisAttempts, reanalysisRules.maxAttempts))),
+  ]);
+
+  return {
+    cleared: cleared.count,
+    clearedLast24h: recent.count,
+    waiting: waiting.count,
+    exhausted: exhausted.count,
+  };
+}
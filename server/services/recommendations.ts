@@ -3,7 +3,7 @@
 import { db } from "../db";
 import { videos, posts, userRecommendations, viewSessions } from "@shared/schema";
 import { users } from "@shared/models/auth";
-import { eq, and, desc, sql, inArray } from "drizzle-orm";
+import { eq, and, ne, desc, sql, inArray } from "drizzle-orm";
 import type { ElementCategory, ContentType, FeedItem } from "@shared/types";
 import { getPositivityMultiplier } from "./trending-calculator";
 
@@ -89,7 +89,8 @@ async function generateRecommendations(
       and(
         eq(videos.elementCategory, elementCategory),
         eq(videos.uploadStatus, "Published"),
-        eq(videos.moderationStatus, "auto_approved")
+        eq(videos.moderationStatus, "auto_approved"),
+        ne(users.accountStatus, "banned")
       )
     )
     .orderBy(desc(videos.viewCount))
@@ -177,7 +178,8 @@ async function fetchContentByIds(
     .where(
       and(
         inArray(videos.id, ids),
-        eq(videos.uploadStatus, "Published")
+        eq(videos.uploadStatus, "Published"),
+        ne(users.accountStatus, "banned")
       )
     );
 
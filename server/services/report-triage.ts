@@ -0,0 +1,218 @@
+// Report Triage Service
+// Validates user reports, keeps one pending report per reporter and target, and
+// turns accumulated reports into moderation queue items: created once a target
+// crosses a report threshold, escalated in priority as more reports arrive.
+// Reporters are notified when the target is resolved.
+import { db } from "../db";
+import { reports, moderationQueue, posts, videos, comments, type Report, type ModerationQueueRecord } from "@shared/schema";
+import { users } from "@shared/models/auth";
+import { eq, and, ne, isNull, desc, sql, type AnyColumn, type SQL } from "drizzle-orm";
+import { moderationPriorities, type ModerationPriority, type ModerationTargetType, type ReportReason, type ReportResolution, type ReportStatus } from "@shared/types";
+import { reportReasonConfigs, reportThresholds, SEVERE_REPORT_PRIORITY } from "@shared/reports";
+import { notifyReportResolved } from "./notifications";
+
+export interface ReportTarget {
+  type: ModerationTargetType;
+  // Set for content targets
+  contentId: number | null;
+  // Set for user targets
+  userId: string | null;
+}
+
+export function toReportTarget(type: ModerationTargetType, targetId: string | number): ReportTarget {
+  return type === "user"
+    ? { type, contentId: null, userId: String(targetId) }
+    : { type, contentId: Number(targetId), userId: null };
+}
+
+// reports and moderationQueue share the same target columns
+function matchesTarget(
+  table: { contentType: AnyColumn; contentId: AnyColumn; targetUserId: AnyColumn },
+  target: ReportTarget
+): SQL {
+  return and(
+    eq(table.contentType, target.type),
+    target.type === "user" ? eq(table.targetUserId, target.userId!) : eq(table.contentId, target.contentId!)
+  )!;
+}
+
+// Owner of the reported target, or null when the target does not exist
+async function findTargetOwner(target: ReportTarget): Promise<string | null> {
+  switch (target.type) {
+    case "post": {
+      const [post] = await db.select({ ownerId: posts.authorId }).from(posts).where(eq(posts.id, target.contentId!));
+      return post?.ownerId ?? null;
+    }
+    case "video": {
+      const [video] = await db.select({ ownerId: videos.createdBy }).from(videos).where(eq(videos.id, target.contentId!));
+      return video?.ownerId ?? null;
+    }
+    case "comment": {
+      const [comment] = await db
+        .select({ ownerId: comments.authorId })
+        .from(comments)
+        .where(and(eq(comments.id, target.contentId!), isNull(comments.deletedAt)));
+      return comment?.ownerId ?? null;
+    }
+    case "user": {
+      const [user] = await db.select({ ownerId: users.id }).from(users).where(eq(users.id, target.userId!));
+      return user?.ownerId ?? null;
+    }
+  }
+}
+
+// Priority the pending reports call for, or null when they don't warrant review yet
+function reportPriority(reasons: ReportReason[]): ModerationPriority | null {
+  const byCount = reportThresholds.find((t) => reasons.length >= t.reports)?.priority ?? null;
+  if (!reasons.some((r) => reportReasonConfigs[r].severe)) return byCount;
+  return byCount && priorityRank(byCount) < priorityRank(SEVERE_REPORT_PRIORITY) ? byCount : SEVERE_REPORT_PRIORITY;
+}
+
+// Lower rank = more urgent
+function priorityRank(priority: ModerationPriority): number {
+  return moderationPriorities.indexOf(priority);
+}
+
+function summarizeReports(reasons: ReportReason[]): string {
+  const labels = Array.from(new Set(reasons)).map((r) => reportReasonConfigs[r].label);
+  return `Reported ${reasons.length} time${reasons.length === 1 ? "" : "s"}: ${labels.join(", ")}`;
+}
+
+// Replace the report summary in an item's flagged reason, keeping whatever the
+// AI flagged it for in front
+function withReportSummary(flaggedReason: string | null, reasons: ReportReason[]): string {
+  const aiReason = (flaggedReason ?? "").replace(/(^|; )Reported \d+ times?: .*$/, "");
+  return aiReason ? `${aiReason}; ${summarizeReports(reasons)}` : summarizeReports(reasons);
+}
+
+// ── Submission ──────────────────────────────────────────────
+
+export interface ReportInput {
+  targetType: ModerationTargetType;
+  targetId: string | number;
+  reason: ReportReason;
+  details?: string;
+}
+
+export type ReportOutcome =
+  | { status: "created"; report: Report; queueItem: ModerationQueueRecord | null }
+  | { status: "not_found" | "self_report" | "duplicate" };
+
+export async function submitReport(reporterId: string, input: ReportInput): Promise<ReportOutcome> {
+  const target = toReportTarget(input.targetType, input.targetId);
+  const ownerId = await findTargetOwner(target);
+  if (!ownerId) return { status: "not_found" };
+  if (ownerId === reporterId) return { status: "self_report" };
+
+  // The partial unique indexes reject a second pending report from the same reporter
+  const [report] = await db
+    .insert(reports)
+    .values({
+      reporterId,
+      contentType: target.type,
+      contentId: target.contentId,
+      targetUserId: target.userId,
+      reason: input.reason,
+      details: input.details,
+    })
+    .onConflictDoNothing()
+    .returning();
+  if (!report) return { status: "duplicate" };
+
+  const queueItem = await triageTarget(target);
+  return { status: "created", report: { ...report, queueItemId: queueItem?.id ?? null }, queueItem };
+}
+
+// Create or escalate the target's open queue item from its pending reports
+async function triageTarget(target: ReportTarget): Promise<ModerationQueueRecord | null> {
+  return await db.transaction(async (tx) => {
+    // Serialize triage per target so concurrent reports can't open two items
+    const key = `report:${target.type}:${target.contentId ?? target.userId}`;
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${key}))`);
+
+    const pending = await tx
+      .select({ reason: reports.reason })
+      .from(reports)
+      .where(and(matchesTarget(reports, target), eq(reports.status, "pending")));
+    const reasons = pending.map((r) => r.reason);
+    const priority = reportPriority(reasons);
+
+    const [open] = await tx
+      .select()
+      .from(moderationQueue)
+      .where(and(matchesTarget(moderationQueue, target), ne(moderationQueue.status, "resolved")))
+      .limit(1);
+
+    if (!open && !priority) return null;
+
+    let item: ModerationQueueRecord;
+    if (open) {
+      // Reports only ever raise priority, e.g. over an item the AI queued as low
+      const escalated = priority && priorityRank(priority) < priorityRank(open.priority) ? priority : open.priority;
+      [item] = await tx
+        .update(moderationQueue)
+        .set({
+          reportCount: reasons.length,
+          priority: escalated,
+          aiFlaggedReason: reasons.length > 0 ? withReportSummary(open.aiFlaggedReason, reasons) : open.aiFlaggedReason,
+        })
+        .where(eq(moderationQueue.id, open.id))
+        .returning();
+      if (escalated !== open.priority) {
+        console.log(`[Reports] Escalated queue item ${open.id} to ${escalated} (${reasons.length} reports)`);
+      }
+    } else {
+      [item] = await tx
+        .insert(moderationQueue)
+        .values({
+          contentId: target.contentId,
+          contentType: target.type,
+          targetUserId: target.userId,
+          aiFlaggedReason: summarizeReports(reasons),
+          priority: priority!,
+          reportCount: reasons.length,
+          status: "pending",
+        })
+        .returning();
+      console.log(`[Reports] Queued ${target.type} ${target.contentId ?? target.userId} for review (${reasons.length} reports)`);
+    }
+
+    await tx
+      .update(reports)
+      .set({ queueItemId: item.id })
+      .where(and(matchesTarget(reports, target), eq(reports.status, "pending"), isNull(reports.queueItemId)));
+
+    return item;
+  });
+}
+
+// ── Resolution ──────────────────────────────────────────────
+
+// Close every pending report on the target and let each reporter know the outcome
+export async function resolveReports(target: ReportTarget, resolution: ReportResolution): Promise<number> {
+  const resolved = await db
+    .update(reports)
+    .set({ status: "resolved", resolution, resolvedAt: new Date() })
+    .where(and(matchesTarget(reports, target), eq(reports.status, "pending")))
+    .returning({ reporterId: reports.reporterId });
+
+  for (const reporterId of Array.from(new Set(resolved.map((r) => r.reporterId)))) {
+    await notifyReportResolved(reporterId, target.type, target.contentId, resolution);
+  }
+  return resolved.length;
+}
+
+export async function listReports(
+  options: { status?: ReportStatus; queueItemId?: number; limit?: number } = {}
+): Promise<Report[]> {
+  const conditions: SQL[] = [];
+  if (options.status) conditions.push(eq(reports.status, options.status));
+  if (options.queueItemId) conditions.push(eq(reports.queueItemId, options.queueItemId));
+
+  return await db
+    .select()
+    .from(reports)
+    .where(conditions.length ? and(...conditions) : undefined)
+    .orderBy(desc(reports.createdAt))
+    .limit(options.limit ?? 50);
+}
@@ -0,0 +1,202 @@
+// Search Service
+// Postgres full-text search over posts, videos and user profiles.
+// Content follows feed visibility rules (published only, suppressed tier and
+// banned authors hidden, age-restricted content only for signed-in viewers)
+// and relevance is weighted by the same positivity multipliers as trending.
+import { db } from "../db";
+import { videos, posts } from "@shared/schema";
+import { users } from "@shared/models/auth";
+import { eq, ne, and, desc, sql, gte, lte, or, isNull, type SQL, type Column } from "drizzle-orm";
+import type { ChakraType } from "@shared/schema";
+import type { ElementCategory, ContentType, SearchType, SearchContentItem, SearchUserItem, SearchResults } from "@shared/types";
+import { ageRestrictionFilter } from "./feed-service";
+
+// These expressions must stay identical to the GIN index definitions in the schema
+export const postSearchVector = sql`to_tsvector('english', ${posts.content})`;
+export const videoSearchVector = sql`to_tsvector('english', ${videos.title} || ' ' || coalesce(${videos.description}, ''))`;
+export const userSearchVector = sql`to_tsvector('english', coalesce(${users.displayName}, '') || ' ' || coalesce(${users.bio}, ''))`;
+
+// Minimum positivity score outside the "suppressed" visibility tier
+const SUPPRESSED_BELOW = 30;
+
+export interface SearchFilters {
+  type?: SearchType;
+  element?: ElementCategory;
+  chakra?: ChakraType;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  includeAgeRestricted?: boolean;
+}
+
+export function toSearchQuery(q: string): SQL {
+  return sql`websearch_to_tsquery('english', ${q})`;
+}
+
+// Mirrors getPositivityMultiplier; unscored content ranks as neutral
+function positivityWeight(score: Column): SQL {
+  return sql`CASE
+    WHEN ${score} IS NULL THEN 1.0
+    WHEN ${score} >= 90 THEN 3.0
+    WHEN ${score} >= 70 THEN 1.5
+    WHEN ${score} >= 50 THEN 1.0
+    ELSE 0.5
+  END`;
+}
+
+export async function searchPosts(q: string, filters: SearchFilters = {}): Promise<SearchContentItem[]> {
+  const query = toSearchQuery(q);
+  const rank = sql<number>`ts_rank(${postSearchVector}, ${query}) * ${positivityWeight(posts.positivityScore)}`.mapWith(Number);
+
+  const result = await db
+    .select({
+      id: posts.id,
+      content: posts.content,
+      elementCategory: posts.elementCategory,
+      viewCount: posts.viewCount,
+      positivityScore: posts.positivityScore,
+      createdAt: posts.createdAt,
+      rank,
+      authorId: users.id,
+      authorDisplayName: users.displayName,
+      authorProfileImage: users.profileImageUrl,
+    })
+    .from(posts)
+    .innerJoin(users, eq(posts.authorId, users.id))
+    .where(
+      and(
+        sql`${postSearchVector} @@ ${query}`,
+        eq(posts.uploadStatus, "Published"),
+        ne(users.accountStatus, "banned"),
+        or(isNull(posts.positivityScore), gte(posts.positivityScore, SUPPRESSED_BELOW)),
+        ageRestrictionFilter(posts.ageRestricted, !!filters.includeAgeRestricted),
+        filters.element ? eq(posts.elementCategory, filters.element) : undefined,
+        filters.chakra ? eq(posts.chakraType, filters.chakra) : undefined,
+        filters.from ? gte(posts.createdAt, filters.from) : undefined,
+        filters.to ? lte(posts.createdAt, filters.to) : undefined
+      )
+    )
+    .orderBy(desc(rank), desc(posts.createdAt))
+    .limit(filters.limit ?? 20);
+
+  return result.map((r) => ({
+    id: r.id,
+    type: "post" as ContentType,
+    content: r.content,
+    elementCategory: (r.elementCategory || "Spiritual") as ElementCategory,
+    viewCount: r.viewCount,
+    positivityScore: r.positivityScore,
+    createdAt: r.createdAt.toISOString(),
+    rank: r.rank,
+    author: {
+      id: r.authorId,
+      displayName: r.authorDisplayName,
+      profileImageUrl: r.authorProfileImage,
+    },
+  }));
+}
+
+export async function searchVideos(q: string, filters: SearchFilters = {}): Promise<SearchContentItem[]> {
+  // Videos carry no chakra, so a chakra filter excludes them
+  if (filters.chakra) return [];
+
+  const query = toSearchQuery(q);
+  const rank = sql<number>`ts_rank(${videoSearchVector}, ${query}) * ${positivityWeight(videos.positivityScore)}`.mapWith(Number);
+
+  const result = await db
+    .select({
+      id: videos.id,
+      title: videos.title,
+      description: videos.description,
+      elementCategory: videos.elementCategory,
+      videoUrl: videos.videoUrl,
+      durationSeconds: videos.durationSeconds,
+      viewCount: videos.viewCount,
+      positivityScore: videos.positivityScore,
+      createdAt: videos.createdAt,
+      rank,
+      authorId: users.id,
+      authorDisplayName: users.displayName,
+      authorProfileImage: users.profileImageUrl,
+    })
+    .from(videos)
+    .innerJoin(users, eq(videos.createdBy, users.id))
+    .where(
+      and(
+        sql`${videoSearchVector} @@ ${query}`,
+        eq(videos.uploadStatus, "Published"),
+        ne(users.accountStatus, "banned"),
+        or(isNull(videos.positivityScore), gte(videos.positivityScore, SUPPRESSED_BELOW)),
+        ageRestrictionFilter(videos.ageRestricted, !!filters.includeAgeRestricted),
+        filters.element ? eq(videos.elementCategory, filters.element) : undefined,
+        filters.from ? gte(videos.createdAt, filters.from) : undefined,
+        filters.to ? lte(videos.createdAt, filters.to) : undefined
+      )
+    )
+    .orderBy(desc(rank), desc(videos.createdAt))
+    .limit(filters.limit ?? 20);
+
+  return result.map((r) => ({
+    id: r.id,
+    type: "video" as ContentType,
+    title: r.title,
+    description: r.description,
+    elementCategory: r.elementCategory as ElementCategory,
+    videoUrl: r.videoUrl,
+    durationSeconds: r.durationSeconds,
+    viewCount: r.viewCount,
+    positivityScore: r.positivityScore,
+    createdAt: r.createdAt.toISOString(),
+    rank: r.rank,
+    author: {
+      id: r.authorId,
+      displayName: r.authorDisplayName,
+      profileImageUrl: r.authorProfileImage,
+    },
+  }));
+}
+
+// Element and date filters describe content, so they only narrow content results
+export async function searchUsers(q: string, filters: SearchFilters = {}): Promise<SearchUserItem[]> {
+  const query = toSearchQuery(q);
+  const rank = sql<number>`ts_rank(${userSearchVector}, ${query})`.mapWith(Number);
+
+  return await db
+    .select({
+      id: users.id,
+      displayName: users.displayName,
+      profileImageUrl: users.profileImageUrl,
+      bio: users.bio,
+      dominantChakra: users.dominantChakra,
+      rank,
+    })
+    .from(users)
+    .where(
+      and(
+        sql`${userSearchVector} @@ ${query}`,
+        filters.chakra ? eq(users.dominantChakra, filters.chakra) : undefined
+      )
+    )
+    .orderBy(desc(rank), users.displayName)
+    .limit(filters.limit ?? 20);
+}
+
+export async function search(q: string, filters: SearchFilters = {}): Promise<SearchResults> {
+  const limit = filters.limit ?? 20;
+  const wants = (type: SearchType) => !filters.type || filters.type === type;
+  const contentFiltered = !!(filters.element || filters.from || filters.to);
+
+  const [postHits, videoHits, userHits] = await Promise.all([
+    wants("post") ? searchPosts(q, filters) : Promise.resolve([]),
+    wants("video") ? searchVideos(q, filters) : Promise.resolve([]),
+    wants("user") && (filters.type === "user" || !contentFiltered)
+      ? searchUsers(q, filters)
+      : Promise.resolve([]),
+  ]);
+
+  const content = [...postHits, ...videoHits]
+    .sort((a, b) => b.rank - a.rank || new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+    .slice(0, limit);
+
+  return { query: q, content, users: userHits };
+}
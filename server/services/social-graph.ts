@@ -0,0 +1,143 @@
+// Social Graph Service
+// Follow / unfollow, mutual-friend detection and blocking
+import { db } from "../db";
+import { follows, blocks } from "@shared/schema";
+import { users } from "@shared/models/auth";
+import { eq, and, or, sql } from "drizzle-orm";
+import { notifyFollow } from "./notifications";
+
+export interface Relationship {
+  following: boolean;
+  followedBy: boolean;
+  friends: boolean;
+  blocked: boolean;
+  blockedBy: boolean;
+}
+
+export interface SocialUser {
+  id: string;
+  displayName: string | null;
+  profileImageUrl: string | null;
+}
+
+// True if either user has blocked the other
+export async function isBlockedEitherWay(userA: string, userB: string): Promise<boolean> {
+  const [row] = await db
+    .select({ id: blocks.id })
+    .from(blocks)
+    .where(
+      or(
+        and(eq(blocks.blockerId, userA), eq(blocks.blockedId, userB)),
+        and(eq(blocks.blockerId, userB), eq(blocks.blockedId, userA))
+      )
+    )
+    .limit(1);
+  return !!row;
+}
+
+export async function followUser(followerId: string, followingId: string): Promise<void> {
+  const [created] = await db
+    .insert(follows)
+    .values({ followerId, followingId })
+    .onConflictDoNothing()
+    .returning({ id: follows.id });
+
+  if (created) await notifyFollow(followingId, followerId);
+}
+
+export async function unfollowUser(followerId: string, followingId: string): Promise<void> {
+  await db
+    .delete(follows)
+    .where(and(eq(follows.followerId, followerId), eq(follows.followingId, followingId)));
+}
+
+export async function blockUser(blockerId: string, blockedId: string): Promise<void> {
+  await db.transaction(async (tx) => {
+    await tx.insert(blocks).values({ blockerId, blockedId }).onConflictDoNothing();
+    await tx
+      .delete(follows)
+      .where(
+        or(
+          and(eq(follows.followerId, blockerId), eq(follows.followingId, blockedId)),
+          and(eq(follows.followerId, blockedId), eq(follows.followingId, blockerId))
+        )
+      );
+  });
+}
+
+export async function unblockUser(blockerId: string, blockedId: string): Promise<void> {
+  await db
+    .delete(blocks)
+    .where(and(eq(blocks.blockerId, blockerId), eq(blocks.blockedId, blockedId)));
+}
+
+export async function getRelationship(userId: string, otherId: string): Promise<Relationship> {
+  const rows = await db
+    .select()
+    .from(follows)
+    .where(
+      or(
+        and(eq(follows.followerId, userId), eq(follows.followingId, otherId)),
+        and(eq(follows.followerId, otherId), eq(follows.followingId, userId))
+      )
+    );
+  const blockRows = await db
+    .select()
+    .from(blocks)
+    .where(
+      or(
+        and(eq(blocks.blockerId, userId), eq(blocks.blockedId, otherId)),
+        and(eq(blocks.blockerId, otherId), eq(blocks.blockedId, userId))
+      )
+    );
+
+  const following = rows.some((r) => r.followerId === userId);
+  const followedBy = rows.some((r) => r.followerId === otherId);
+  return {
+    following,
+    followedBy,
+    friends: following && followedBy,
+    blocked: blockRows.some((r) => r.blockerId === userId),
+    blockedBy: blockRows.some((r) => r.blockerId === otherId),
+  };
+}
+
+// Friends are users who follow each other
+export async function getFriendIds(userId: string): Promise<string[]> {
+  const rows = await db
+    .select({ friendId: follows.followingId })
+    .from(follows)
+    .where(
+      and(
+        eq(follows.followerId, userId),
+        sql`EXISTS (
+          SELECT 1 FROM follows back
+          WHERE back.follower_id = ${follows.followingId} AND back.following_id = ${userId}
+        )`
+      )
+    );
+  return rows.map((r) => r.friendId);
+}
+
+export async function getFollowing(userId: string): Promise<SocialUser[]> {
+  return await db
+    .select({ id: users.id, displayName: users.displayName, profileImageUrl: users.profileImageUrl })
+    .from(follows)
+    .innerJoin(users, eq(follows.followingId, users.id))
+    .where(eq(follows.followerId, userId));
+}
+
+export async function getFollowers(userId: string): Promise<SocialUser[]> {
+  return await db
+    .select({ id: users.id, displayName: users.displayName, profileImageUrl: users.profileImageUrl })
+    .from(follows)
+    .innerJoin(users, eq(follows.followerId, users.id))
+    .where(eq(follows.followingId, userId));
+}
+
+export async function getFriends(userId: string): Promise<SocialUser[]> {
+  const friendIds = await getFriendIds(userId);
+  if (friendIds.length === 0) return [];
+  const following = await getFollowing(userId);
+  return following.filter((u) => friendIds.includes(u.id));
+}
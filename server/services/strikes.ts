@@ -0,0 +1,211 @@
+// Strikes Service
+// Keeps a per-creator ledger of strikes from rejections (by moderators or the
+// AI) and upheld reports. Unexpired strikes trigger the restrictions in
+// shared/strikes.ts; nothing needs clearing, since standing is computed from
+// the ledger on read. The top threshold also suspends the account.
+import { db } from "../db";
+import { strikes, auditLog, videos, posts, comments, type Strike } from "@shared/schema";
+import { users } from "@shared/models/auth";
+import { eq, and, gt, lt, ne, or, isNull, isNotNull, desc, count } from "drizzle-orm";
+import { STRIKE_EXPIRY_DAYS, strikeThresholds } from "@shared/strikes";
+import type { ContentType, ModerationTargetType, StrikeSource, StrikeStanding } from "@shared/types";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface StrikeInput {
+  userId: string;
+  source: StrikeSource;
+  contentType: ModerationTargetType;
+  contentId: number | null;
+  // The decided queue item; at most one strike per item
+  queueItemId: number | null;
+  // The bulk decision the strike covers; at most one per offender per batch
+  batchId?: string | null;
+  // null for automatic rejections
+  issuedBy: string | null;
+  reason: string | null;
+}
+
+export interface IssuedStrike {
+  strike: Strike | null;
+  // The strike suspended the account. The caller disconnects the user once
+  // its transaction commits, so a rollback never kicks anyone off.
+  suspended: boolean;
+}
+
+const STRIKE_SUSPENSION_REASON = "Repeated community guideline strikes";
+
+function isActive(userId: string) {
+  return and(eq(strikes.userId, userId), isNull(strikes.revokedAt), gt(strikes.expiresAt, new Date()));
+}
+
+// Record a strike as part of the moderation decision's transaction
+export async function issueStrike(tx: Transaction, input: StrikeInput): Promise<IssuedStrike> {
+  const [strike] = await tx
+    .insert(strikes)
+    .values({ ...input, expiresAt: new Date(Date.now() + STRIKE_EXPIRY_DAYS * 86_400_000) })
+    .onConflictDoNothing()
+    .returning();
+  if (!strike) return { strike: null, suspended: false };
+
+  console.log(`[Strikes] Strike ${strike.id} issued to ${input.userId} (${input.source})`);
+  return { strike, suspended: await suspendForStrikes(tx, input.userId) };
+}
+
+// Reaching the "suspended" threshold suspends the account the same way an admin
+// would, so sign-in and the WebSocket are refused too. Bans and longer
+// suspensions are left as they are. Returns whether the account was suspended.
+async function suspendForStrikes(tx: Transaction, userId: string): Promise<boolean> {
+  const [{ active }] = await tx.select({ active: count() }).from(strikes).where(isActive(userId));
+  const threshold = strikeThresholds.find((t) => active >= t.strikes);
+  if (threshold?.restriction !== "suspended") return false;
+
+  const until = new Date(Date.now() + threshold.hours * 3_600_000);
+  const [previous] = await tx
+    .select({ accountStatus: users.accountStatus, suspendedUntil: users.suspendedUntil, reason: users.accountStatusReason })
+    .from(users)
+    .where(eq(users.id, userId))
+    .for("update");
+  const [suspended] = await tx
+    .update(users)
+    .set({ accountStatus: "suspended", accountStatusReason: STRIKE_SUSPENSION_REASON, suspendedUntil: until, updatedAt: new Date() })
+    .where(
+      and(
+        eq(users.id, userId),
+        ne(users.accountStatus, "banned"),
+        or(isNull(users.suspendedUntil), lt(users.suspendedUntil, until))
+      )
+    )
+    .returning({ id: users.id });
+  if (!suspended) return false;
+
+  await tx.insert(auditLog).values({
+    action: "suspend",
+    actorId: null,
+    targetUserId: userId,
+    changes: { reason: STRIKE_SUSPENSION_REASON, suspendedUntil: until, activeStrikes: active, previous },
+  });
+  console.log(`[Strikes] User ${userId} suspended until ${until.toISOString()} (${active} strikes)`);
+  return true;
+}
+
+// Revoke the strikes behind a rejection that was reversed (approved later or
+// overturned on appeal). Call after the content has been restored.
+export async function revokeContentStrikes(
+  tx: Transaction,
+  contentType: ContentType,
+  contentId: number
+): Promise<number> {
+  const revoked = await tx
+    .update(strikes)
+    .set({ revokedAt: new Date() })
+    .where(
+      and(
+        eq(strikes.contentType, contentType),
+        eq(strikes.contentId, contentId),
+        isNull(strikes.batchId),
+        isNull(strikes.revokedAt)
+      )
+    )
+    .returning({ id: strikes.id });
+  return revoked.length + (await revokeClearedBatchStrikes(tx, contentType, contentId));
+}
+
+// A bulk rejection's strike covers all of the offender's items in the batch,
+// so it is revoked only once none of them is still rejected
+async function revokeClearedBatchStrikes(
+  tx: Transaction,
+  contentType: ContentType,
+  contentId: number
+): Promise<number> {
+  const batches = await tx
+    .selectDistinct({ batchId: auditLog.batchId, userId: auditLog.targetUserId })
+    .from(auditLog)
+    .where(
+      and(
+        eq(auditLog.action, "reject"),
+        eq(auditLog.contentType, contentType),
+        eq(auditLog.contentId, contentId),
+        isNotNull(auditLog.batchId)
+      )
+    );
+
+  let revoked = 0;
+  for (const { batchId, userId } of batches) {
+    if (!batchId || !userId) continue;
+    const [strike] = await tx
+      .select({ id: strikes.id })
+      .from(strikes)
+      .where(and(eq(strikes.batchId, batchId), eq(strikes.userId, userId), isNull(strikes.revokedAt)))
+      .for("update");
+    if (!strike) continue;
+
+    const rejections = await tx
+      .select({ contentType: auditLog.contentType, contentId: auditLog.contentId })
+      .from(auditLog)
+      .where(and(eq(auditLog.batchId, batchId), eq(auditLog.action, "reject"), eq(auditLog.targetUserId, userId)));
+    let standing = false;
+    for (const r of rejections) {
+      if (await isStillRejected(tx, r.contentType, r.contentId)) {
+        standing = true;
+        break;
+      }
+    }
+    if (standing) continue;
+
+    await tx.update(strikes).set({ revokedAt: new Date() }).where(eq(strikes.id, strike.id));
+    console.log(`[Strikes] Batch strike ${strike.id} revoked; no item from batch ${batchId} is still rejected`);
+    revoked++;
+  }
+  return revoked;
+}
+
+// Rejections of a reported user (no content) are never reversed this way
+async function isStillRejected(
+  tx: Transaction,
+  contentType: ContentType | null,
+  contentId: number | null
+): Promise<boolean> {
+  if (!contentType || contentId === null) return true;
+  if (contentType === "video") {
+    const [video] = await tx.select({ uploadStatus: videos.uploadStatus }).from(videos).where(eq(videos.id, contentId));
+    return video?.uploadStatus === "Flagged";
+  }
+  if (contentType === "post") {
+    const [post] = await tx.select({ uploadStatus: posts.uploadStatus }).from(posts).where(eq(posts.id, contentId));
+    return post?.uploadStatus === "Flagged";
+  }
+  const [comment] = await tx
+    .select({ moderationStatus: comments.moderationStatus })
+    .from(comments)
+    .where(eq(comments.id, contentId));
+  return comment?.moderationStatus === "rejected";
+}
+
+export async function getStrikeStanding(userId: string): Promise<StrikeStanding> {
+  const active = await db
+    .select()
+    .from(strikes)
+    .where(isActive(userId))
+    .orderBy(desc(strikes.createdAt));
+
+  // Each new strike restarts the restriction its total calls for
+  const threshold = strikeThresholds.find((t) => active.length >= t.strikes);
+  const until = threshold ? new Date(active[0].createdAt.getTime() + threshold.hours * 3_600_000) : null;
+  const restricted = until !== null && until > new Date();
+
+  return {
+    activeStrikes: active.length,
+    restriction: restricted ? threshold!.restriction : null,
+    restrictedUntil: restricted ? until!.toISOString() : null,
+    strikes: active.map((s) => ({
+      id: s.id,
+      source: s.source,
+      contentType: s.contentType,
+      contentId: s.contentId,
+      reason: s.reason,
+      createdAt: s.createdAt.toISOString(),
+      expiresAt: s.expiresAt.toISOString(),
+    })),
+  };
+}
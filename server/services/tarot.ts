@@ -0,0 +1,34 @@
+// Tarot Service
+// Shuffles the full 78-card deck with cryptographic randomness and lays out spreads
+import { tarotDeck, tarotSpreads, type TarotCard } from "@shared/tarot";
+import type { TarotSpreadType } from "@shared/types";
+import { secureShuffle, secureRandomBoolean } from "../lib/random-selector";
+
+export interface DrawnCard {
+  id: number;
+  name: string;
+  arcana: TarotCard["arcana"];
+  suit: TarotCard["suit"];
+  reversed: boolean;
+  position: string;
+  meaning: string;
+}
+
+export function drawSpread(spreadType: TarotSpreadType): DrawnCard[] {
+  const { positions } = tarotSpreads[spreadType];
+  const deck = secureShuffle(tarotDeck);
+
+  return positions.map((position, i) => {
+    const card = deck[i];
+    const reversed = secureRandomBoolean();
+    return {
+      id: card.id,
+      name: card.name,
+      arcana: card.arcana,
+      suit: card.suit,
+      reversed,
+      position,
+      meaning: reversed ? card.reversed : card.upright,
+    };
+  });
+}
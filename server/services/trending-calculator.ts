@@ -1,34 +1,81 @@
 // Trending Calculator Service
-// Calculates trending scores for content: views_24h * 0.6 + engagement_24h * 0.4
+// Calculates trending scores from the content event log over a rolling 24h window.
+// Each event contributes (view 0.6 / engagement 0.4) decayed by a half-life,
+// so a burst of activity an hour ago outranks the same activity 20 hours ago.
 // Weighted by positivity score for mental health ranking
 import { db } from "../db";
-import { videos, posts, contentTrending } from "@shared/schema";
-import { eq, sql, and, gt } from "drizzle-orm";
+import { videos, posts, contentTrending, contentEvents } from "@shared/schema";
+import { eq, sql, and } from "drizzle-orm";
 import type { ElementCategory, ContentType } from "@shared/types";
+import { pruneContentEvents } from "./content-events";
+
+const WINDOW_HOURS = 24;
+const HALF_LIFE_HOURS = parseFloat(process.env.TRENDING_HALF_LIFE_HOURS || "6");
+const VIEW_WEIGHT = 0.6;
+const ENGAGEMENT_WEIGHT = 0.4;
+
+interface WindowStats {
+  viewCount24h: number;
+  engagementCount24h: number;
+  decayedScore: number;
+}
 
 export async function calculateTrendingScores(): Promise<void> {
   console.log("[Trending] Recalculating trending scores...");
 
   const elements: ElementCategory[] = ["Water", "Fire", "Earth", "Air", "Spiritual"];
-  const now = new Date();
-  const twentyFourHoursAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+  const [videoStats, postStats] = await Promise.all([
+    getWindowStats("video"),
+    getWindowStats("post"),
+  ]);
 
   for (const element of elements) {
-    await calculateElementTrending(element, twentyFourHoursAgo);
+    await calculateElementTrending(element, videoStats, postStats);
+  }
+
+  const pruned = await pruneContentEvents();
+  if (pruned > 0) {
+    console.log(`[Trending] Pruned ${pruned} expired content events`);
   }
 
   console.log("[Trending] Trending scores recalculated successfully");
 }
 
+// Rolling-window counts and half-life decayed score per content item
+async function getWindowStats(contentType: ContentType): Promise<Map<number, WindowStats>> {
+  const ageHours = sql`EXTRACT(EPOCH FROM (NOW() - ${contentEvents.createdAt})) / 3600`;
+
+  const rows = await db
+    .select({
+      contentId: contentEvents.contentId,
+      viewCount24h: sql<number>`COUNT(*) FILTER (WHERE ${contentEvents.eventType} = 'view')`.mapWith(Number),
+      engagementCount24h: sql<number>`COUNT(*) FILTER (WHERE ${contentEvents.eventType} <> 'view')`.mapWith(Number),
+      decayedScore: sql<number>`SUM(
+        CASE WHEN ${contentEvents.eventType} = 'view' THEN ${VIEW_WEIGHT} ELSE ${ENGAGEMENT_WEIGHT} END
+        * POWER(0.5, ${ageHours} / ${HALF_LIFE_HOURS})
+      )`.mapWith(Number),
+    })
+    .from(contentEvents)
+    .where(
+      and(
+        eq(contentEvents.contentType, contentType),
+        sql`${contentEvents.createdAt} > NOW() - make_interval(hours => ${WINDOW_HOURS})`
+      )
+    )
+    .groupBy(contentEvents.contentId);
+
+  return new Map(rows.map((r) => [r.contentId, r]));
+}
+
 async function calculateElementTrending(
   element: ElementCategory,
-  since: Date
+  videoStats: Map<number, WindowStats>,
+  postStats: Map<number, WindowStats>
 ): Promise<void> {
   // Get published videos for this element
   const publishedVideos = await db
     .select({
       id: videos.id,
-      viewCount: videos.viewCount,
       positivityScore: videos.positivityScore,
     })
     .from(videos)
@@ -40,57 +87,13 @@ async function calculateElementTrending(
     );
 
   for (const video of publishedVideos) {
-    const viewCount24h = video.viewCount; // Simplified: use total views as proxy
-    const engagementCount24h = Math.floor(viewCount24h * 0.3); // Simplified engagement
-
-    // Base trending score: views * 0.6 + engagement * 0.4
-    let trendingScore = viewCount24h * 0.6 + engagementCount24h * 0.4;
-
-    // Positivity multiplier: 2x weight for positivity
-    if (video.positivityScore !== null) {
-      const positivityMultiplier = getPositivityMultiplier(video.positivityScore);
-      trendingScore *= positivityMultiplier;
-    }
-
-    // Upsert trending record
-    const existing = await db
-      .select()
-      .from(contentTrending)
-      .where(
-        and(
-          eq(contentTrending.contentId, video.id),
-          eq(contentTrending.contentType, "video")
-        )
-      );
-
-    if (existing.length > 0) {
-      await db
-        .update(contentTrending)
-        .set({
-          trendingScore: trendingScore.toFixed(2),
-          viewCount24h,
-          engagementCount24h,
-          updatedAt: new Date(),
-        })
-        .where(eq(contentTrending.id, existing[0].id));
-    } else {
-      await db.insert(contentTrending).values({
-        contentId: video.id,
-        contentType: "video",
-        elementCategory: element,
-        trendingScore: trendingScore.toFixed(2),
-        viewCount24h,
-        engagementCount24h,
-      });
-    }
+    await upsertTrending(video.id, "video", element, video.positivityScore, videoStats.get(video.id));
   }
 
   // Get published posts for this element
   const publishedPosts = await db
     .select({
       id: posts.id,
-      viewCount: posts.viewCount,
-      engagementScore: posts.engagementScore,
       positivityScore: posts.positivityScore,
     })
     .from(posts)
@@ -102,45 +105,56 @@ async function calculateElementTrending(
     );
 
   for (const post of publishedPosts) {
-    const viewCount24h = post.viewCount;
-    const engagementCount24h = post.engagementScore || 0;
-
-    let trendingScore = viewCount24h * 0.6 + engagementCount24h * 0.4;
-
-    if (post.positivityScore !== null) {
-      trendingScore *= getPositivityMultiplier(post.positivityScore!);
-    }
-
-    const existing = await db
-      .select()
-      .from(contentTrending)
-      .where(
-        and(
-          eq(contentTrending.contentId, post.id),
-          eq(contentTrending.contentType, "post")
-        )
-      );
-
-    if (existing.length > 0) {
-      await db
-        .update(contentTrending)
-        .set({
-          trendingScore: trendingScore.toFixed(2),
-          viewCount24h,
-          engagementCount24h,
-          updatedAt: new Date(),
-        })
-        .where(eq(contentTrending.id, existing[0].id));
-    } else {
-      await db.insert(contentTrending).values({
-        contentId: post.id,
-        contentType: "post",
+    await upsertTrending(post.id, "post", element, post.positivityScore, postStats.get(post.id));
+  }
+}
+
+async function upsertTrending(
+  contentId: number,
+  contentType: ContentType,
+  element: ElementCategory,
+  positivityScore: number | null,
+  stats: WindowStats | undefined
+): Promise<void> {
+  const viewCount24h = stats?.viewCount24h ?? 0;
+  const engagementCount24h = stats?.engagementCount24h ?? 0;
+  let trendingScore = stats?.decayedScore ?? 0;
+
+  // Positivity multiplier: 2x weight for positivity
+  if (positivityScore !== null) {
+    trendingScore *= getPositivityMultiplier(positivityScore);
+  }
+
+  const existing = await db
+    .select()
+    .from(contentTrending)
+    .where(
+      and(
+        eq(contentTrending.contentId, contentId),
+        eq(contentTrending.contentType, contentType)
+      )
+    );
+
+  if (existing.length > 0) {
+    await db
+      .update(contentTrending)
+      .set({
         elementCategory: element,
         trendingScore: trendingScore.toFixed(2),
         viewCount24h,
         engagementCount24h,
-      });
-    }
+        updatedAt: new Date(),
+      })
+      .where(eq(contentTrending.id, existing[0].id));
+  } else {
+    await db.insert(contentTrending).values({
+      contentId,
+      contentType,
+      elementCategory: element,
+      trendingScore: trendingScore.toFixed(2),
+      viewCount24h,
+      engagementCount24h,
+    });
   }
 }
 
@@ -2,42 +2,111 @@ import {
   users,
   posts,
   comments,
+  commentEdits,
   sparks,
   oracles,
   energyTransactions,
-  reports,
   type User,
+  type PublicAuthor,
+  type PublicProfile,
   type Post,
   type Comment,
+  type CommentEdit,
+  type CommentNode,
   type Spark,
   type Oracle,
   type EnergyTransaction,
-  type Report,
   type ChakraType,
+  type SparkType,
 } from "@shared/schema";
-import type { ElementCategory } from "@shared/types";
+import type { AccountStatus, ElementCategory, Permission, UserRole } from "@shared/types";
 import { db } from "./db";
-import { eq, desc, sql, and } from "drizzle-orm";
+import { eq, ne, desc, asc, sql, and, isNull, getTableColumns, type SQL } from "drizzle-orm";
+import { ageRestrictionFilter } from "./services/feed-service";
+
+// Only the public profile fields go out with content; never email, energy or account status
+const publicAuthorColumns = {
+  id: users.id,
+  firstName: users.firstName,
+  displayName: users.displayName,
+  profileImageUrl: users.profileImageUrl,
+  auraLevel: users.auraLevel,
+  dominantChakra: users.dominantChakra,
+};
+
+const publicProfileColumns = {
+  ...publicAuthorColumns,
+  bio: users.bio,
+  spiritualPath: users.spiritualPath,
+  spiritName: users.spiritName,
+  spiritDescription: users.spiritDescription,
+  spiritImageUrl: users.spiritImageUrl,
+  createdAt: users.createdAt,
+};
+
+// Filter for posts joined with their author that anyone browsing may see
+function visiblePost(includeAgeRestricted: boolean): SQL | undefined {
+  return and(
+    eq(posts.uploadStatus, "Published"),
+    ne(users.accountStatus, "banned"),
+    ageRestrictionFilter(posts.ageRestricted, includeAgeRestricted)
+  );
+}
+
+export interface SparkToggleResult {
+  sparked: boolean;
+  sparkType: SparkType | null;
+  previousType: SparkType | null;
+}
 
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
+  getPublicProfile(id: string): Promise<PublicProfile | undefined>;
   updateUserProfile(id: string, data: Partial<User>): Promise<User>;
-  getPosts(limit?: number, chakraFilter?: ChakraType): Promise<(Post & { author: User })[]>;
-  getPost(id: number): Promise<(Post & { author: User }) | undefined>;
-  getUserPosts(userId: string): Promise<Post[]>;
+  updateUserRole(id: string, role: UserRole): Promise<User>;
+  updateUserPermissions(id: string, permissions: Permission[]): Promise<User>;
+  updateAccountStatus(id: string, status: AccountStatus, reason: string | null, suspendedUntil?: Date): Promise<User>;
+  getPosts(limit?: number, chakraFilter?: ChakraType, includeAgeRestricted?: boolean): Promise<(Post & { author: PublicAuthor })[]>;
+  getPost(id: number, includeAgeRestricted?: boolean): Promise<(Post & { author: PublicAuthor }) | undefined>;
+  getUserPosts(userId: string, includeAgeRestricted?: boolean): Promise<Post[]>;
   createPost(data: { authorId: string; content: string; imageUrl?: string }): Promise<Post>;
   updatePostChakra(id: number, chakraType: ChakraType, frequencyScore: number): Promise<void>;
-  getComments(postId: number): Promise<(Comment & { author: User })[]>;
-  createComment(data: { postId: number; authorId: string; content: string }): Promise<Comment>;
-  toggleSpark(postId: number, userId: string): Promise<boolean>;
+  getComments(postId: number, viewerId?: string): Promise<CommentNode[]>;
+  getComment(id: number): Promise<Comment | undefined>;
+  createComment(data: { postId: number; authorId: string; content: string; parentId?: number; depth?: number }): Promise<Comment>;
+  updateCommentContent(id: number, editorId: string, content: string): Promise<Comment>;
+  softDeleteComment(id: number): Promise<void>;
+  getCommentEdits(commentId: number): Promise<CommentEdit[]>;
+  toggleSpark(postId: number, userId: string, sparkType?: SparkType): Promise<SparkToggleResult>;
+  setSpark(postId: number, userId: string, sparkType: SparkType): Promise<SparkToggleResult>;
+  removeSpark(postId: number, userId: string): Promise<SparkToggleResult>;
   getUserSpark(postId: number, userId: string): Promise<Spark | undefined>;
   getOracles(userId: string): Promise<Oracle[]>;
   createOracle(data: { userId: string; readingType: string; content: string; cards?: unknown; chakraFocus?: ChakraType | null }): Promise<Oracle>;
   getLatestOracle(userId: string, readingType: string): Promise<Oracle | undefined>;
   getEnergyTransactions(userId: string): Promise<EnergyTransaction[]>;
-  addEnergyTransaction(data: { userId: string; amount: number; transactionType: string; description?: string }): Promise<EnergyTransaction>;
-  updateEnergy(userId: string, amount: number): Promise<void>;
-  createReport(data: { reporterId: string; postId?: number; reason: string }): Promise<Report>;
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Recompute total and per-type spark counts from the sparks table so they never drift
+async function recountSparks(tx: Transaction, postId: number): Promise<void> {
+  const rows = await tx
+    .select({ sparkType: sparks.sparkType, count: sql<number>`COUNT(*)`.mapWith(Number) })
+    .from(sparks)
+    .where(eq(sparks.postId, postId))
+    .groupBy(sparks.sparkType);
+
+  const sparkCounts: Partial<Record<SparkType, number>> = {};
+  for (const r of rows) sparkCounts[r.sparkType] = r.count;
+
+  await tx
+    .update(posts)
+    .set({
+      sparkCount: rows.reduce((sum, r) => sum + r.count, 0),
+      sparkCounts,
+    })
+    .where(eq(posts.id, postId));
 }
 
 export class DatabaseStorage implements IStorage {
@@ -46,6 +115,11 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getPublicProfile(id: string): Promise<PublicProfile | undefined> {
+    const [profile] = await db.select(publicProfileColumns).from(users).where(eq(users.id, id));
+    return profile;
+  }
+
   async updateUserProfile(id: string, data: Partial<User>): Promise<User> {
     const [user] = await db
       .update(users)
@@ -55,38 +129,81 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async getPosts(limit = 50, chakraFilter?: ChakraType): Promise<(Post & { author: User })[]> {
-    const conditions = chakraFilter ? eq(posts.chakraType, chakraFilter) : undefined;
+  async updateUserRole(id: string, role: UserRole): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set({ role, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  async updateUserPermissions(id: string, permissions: Permission[]): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set({ permissions, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  async updateAccountStatus(
+    id: string,
+    accountStatus: AccountStatus,
+    accountStatusReason: string | null,
+    suspendedUntil?: Date
+  ): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set({ accountStatus, accountStatusReason, suspendedUntil: suspendedUntil ?? null, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  // Same visibility as the feeds: published posts by authors who aren't banned,
+  // with age-restricted posts for signed-in viewers only
+  async getPosts(
+    limit = 50,
+    chakraFilter?: ChakraType,
+    includeAgeRestricted = false
+  ): Promise<(Post & { author: PublicAuthor })[]> {
     const result = await db
-      .select()
+      .select({ post: posts, author: publicAuthorColumns })
       .from(posts)
       .innerJoin(users, eq(posts.authorId, users.id))
-      .where(conditions)
+      .where(
+        and(
+          visiblePost(includeAgeRestricted),
+          chakraFilter ? eq(posts.chakraType, chakraFilter) : undefined
+        )
+      )
       .orderBy(desc(posts.createdAt))
       .limit(limit);
 
     return result.map((r) => ({
-      ...r.posts,
-      author: r.users,
+      ...r.post,
+      author: r.author,
     }));
   }
 
-  async getPost(id: number): Promise<(Post & { author: User }) | undefined> {
+  async getPost(id: number, includeAgeRestricted = false): Promise<(Post & { author: PublicAuthor }) | undefined> {
     const [result] = await db
-      .select()
+      .select({ post: posts, author: publicAuthorColumns })
       .from(posts)
       .innerJoin(users, eq(posts.authorId, users.id))
-      .where(eq(posts.id, id));
+      .where(and(eq(posts.id, id), visiblePost(includeAgeRestricted)));
 
     if (!result) return undefined;
-    return { ...result.posts, author: result.users };
+    return { ...result.post, author: result.author };
   }
 
-  async getUserPosts(userId: string): Promise<Post[]> {
+  async getUserPosts(userId: string, includeAgeRestricted = false): Promise<Post[]> {
     return await db
-      .select()
+      .select(getTableColumns(posts))
       .from(posts)
-      .where(eq(posts.authorId, userId))
+      .innerJoin(users, eq(posts.authorId, users.id))
+      .where(and(eq(posts.authorId, userId), visiblePost(includeAgeRestricted)))
       .orderBy(desc(posts.createdAt));
   }
 
@@ -107,25 +224,60 @@ export class DatabaseStorage implements IStorage {
       .where(eq(posts.id, id));
   }
 
-  async getComments(postId: number): Promise<(Comment & { author: User })[]> {
+  async getComments(postId: number, viewerId?: string): Promise<CommentNode[]> {
     const result = await db
-      .select()
+      .select({ comments, users: publicAuthorColumns })
       .from(comments)
       .innerJoin(users, eq(comments.authorId, users.id))
       .where(eq(comments.postId, postId))
-      .orderBy(desc(comments.createdAt));
+      .orderBy(asc(comments.createdAt));
 
-    return result.map((r) => ({
-      ...r.comments,
-      author: r.users,
-    }));
+    // Rejected comments are hidden; comments awaiting review are only shown to their author
+    const visible = result.filter((r) =>
+      r.comments.moderationStatus === "auto_approved" ||
+      (r.comments.moderationStatus === "requires_review" && r.comments.authorId === viewerId)
+    );
+
+    const nodes = new Map<number, CommentNode>();
+    for (const r of visible) {
+      nodes.set(r.comments.id, {
+        ...r.comments,
+        content: r.comments.deletedAt ? "" : r.comments.content,
+        author: r.users,
+        replies: [],
+      });
+    }
+
+    const roots: CommentNode[] = [];
+    for (const node of Array.from(nodes.values())) {
+      const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+      if (node.parentId && !parent) continue; // parent hidden, drop the branch
+      (parent ? parent.replies : roots).push(node);
+    }
+
+    // Deleted comments stay only as placeholders that keep their replies attached
+    const prune = (list: CommentNode[]): CommentNode[] =>
+      list
+        .map((n) => ({ ...n, replies: prune(n.replies) }))
+        .filter((n) => !n.deletedAt || n.replies.length > 0);
+
+    // Newest threads first, replies in conversation order
+    return prune(roots).reverse();
+  }
+
+  async getComment(id: number): Promise<Comment | undefined> {
+    const [comment] = await db.select().from(comments).where(eq(comments.id, id));
+    return comment;
   }
 
-  async createComment(data: { postId: number; authorId: string; content: string }): Promise<Comment> {
+  async createComment(data: { postId: number; authorId: string; content: string; parentId?: number; depth?: number }): Promise<Comment> {
     const [newComment] = await db.insert(comments).values({
       postId: data.postId,
       authorId: data.authorId,
       content: data.content,
+      parentId: data.parentId,
+      depth: data.depth ?? 0,
+      moderationStatus: "requires_review",
     }).returning();
     await db
       .update(posts)
@@ -134,23 +286,81 @@ export class DatabaseStorage implements IStorage {
     return newComment;
   }
 
-  async toggleSpark(postId: number, userId: string): Promise<boolean> {
+  async updateCommentContent(id: number, editorId: string, content: string): Promise<Comment> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(comments).where(eq(comments.id, id)).for("update");
+      await tx.insert(commentEdits).values({
+        commentId: id,
+        editorId,
+        previousContent: current.content,
+      });
+      const [updated] = await tx
+        .update(comments)
+        .set({ content, editedAt: new Date(), moderationStatus: "requires_review" })
+        .where(eq(comments.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  async softDeleteComment(id: number): Promise<void> {
+    const [deleted] = await db
+      .update(comments)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(comments.id, id), isNull(comments.deletedAt)))
+      .returning();
+    if (!deleted) return;
+    await db
+      .update(posts)
+      .set({ commentCount: sql`GREATEST(${posts.commentCount} - 1, 0)` })
+      .where(eq(posts.id, deleted.postId));
+  }
+
+  async getCommentEdits(commentId: number): Promise<CommentEdit[]> {
+    return await db
+      .select()
+      .from(commentEdits)
+      .where(eq(commentEdits.commentId, commentId))
+      .orderBy(desc(commentEdits.editedAt));
+  }
+
+  // Same type again removes the reaction; a different type changes it
+  async toggleSpark(postId: number, userId: string, sparkType: SparkType = "light"): Promise<SparkToggleResult> {
     const existing = await this.getUserSpark(postId, userId);
-    if (existing) {
-      await db.delete(sparks).where(eq(sparks.id, existing.id));
-      await db
-        .update(posts)
-        .set({ sparkCount: sql`${posts.sparkCount} - 1` })
-        .where(eq(posts.id, postId));
-      return false;
-    } else {
-      await db.insert(sparks).values({ postId, userId });
-      await db
-        .update(posts)
-        .set({ sparkCount: sql`${posts.sparkCount} + 1` })
-        .where(eq(posts.id, postId));
-      return true;
+    if (existing?.sparkType === sparkType) {
+      return this.removeSpark(postId, userId);
     }
+    return this.setSpark(postId, userId, sparkType);
+  }
+
+  async setSpark(postId: number, userId: string, sparkType: SparkType): Promise<SparkToggleResult> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(sparks)
+        .where(and(eq(sparks.postId, postId), eq(sparks.userId, userId)))
+        .for("update");
+
+      await tx
+        .insert(sparks)
+        .values({ postId, userId, sparkType })
+        .onConflictDoUpdate({ target: [sparks.postId, sparks.userId], set: { sparkType } });
+      await recountSparks(tx, postId);
+      return { sparked: true, sparkType, previousType: existing?.sparkType ?? null };
+    });
+  }
+
+  async removeSpark(postId: number, userId: string): Promise<SparkToggleResult> {
+    return await db.transaction(async (tx) => {
+      const [removed] = await tx
+        .delete(sparks)
+        .where(and(eq(sparks.postId, postId), eq(sparks.userId, userId)))
+        .returning();
+      if (removed) {
+        await recountSparks(tx, postId);
+      }
+      return { sparked: false, sparkType: null, previousType: removed?.sparkType ?? null };
+    });
   }
 
   async getUserSpark(postId: number, userId: string): Promise<Spark | undefined> {
@@ -197,32 +407,6 @@ export class DatabaseStorage implements IStorage {
       .where(eq(energyTransactions.userId, userId))
       .orderBy(desc(energyTransactions.createdAt));
   }
-
-  async addEnergyTransaction(data: { userId: string; amount: number; transactionType: string; description?: string }): Promise<EnergyTransaction> {
-    const [t] = await db.insert(energyTransactions).values({
-      userId: data.userId,
-      amount: data.amount,
-      transactionType: data.transactionType,
-      description: data.description,
-    }).returning();
-    return t;
-  }
-
-  async updateEnergy(userId: string, amount: number): Promise<void> {
-    await db
-      .update(users)
-      .set({ energyPoints: sql`${users.energyPoints} + ${amount}` })
-      .where(eq(users.id, userId));
-  }
-
-  async createReport(data: { reporterId: string; postId?: number; reason: string }): Promise<Report> {
-    const [newReport] = await db.insert(reports).values({
-      reporterId: data.reporterId,
-      postId: data.postId,
-      reason: data.reason,
-    }).returning();
-    return newReport;
-  }
 }
 
 export const storage = new DatabaseStorage();
@@ -1,81 +1,199 @@
-// WebSocket handler for real-time Friends Watching updates
+// WebSocket handler for real-time Friends Watching updates and notifications
+// Connections are authenticated from the express-session cookie during the upgrade
+// and bound to the user id; viewing events are only ever produced server-side.
 import { WebSocketServer, type WebSocket } from "ws";
-import type { Server } from "http";
+import type { Server, IncomingMessage } from "http";
+import type { Duplex } from "stream";
+import { db } from "../db";
+import { viewSessions } from "@shared/schema";
+import { users } from "@shared/models/auth";
+import { eq, and, isNull } from "drizzle-orm";
+import { getSessionUserId } from "../replit_integrations/auth";
+import { getFriendIds } from "../services/social-graph";
+import { getAccountBlock } from "../services/account-status";
+
+const WS_PATH = "/ws/friends-watching";
+const HEARTBEAT_INTERVAL_MS = 30_000;
+// How long a user may be fully disconnected before their open watch sessions expire
+const PRESENCE_GRACE_MS = 2 * 60_000;
 
 interface ViewingUpdate {
   type: "viewing_start" | "viewing_stop";
   userId: string;
-  userName: string;
+  userName: string | null;
   userImage: string | null;
   contentId: number;
   contentType: "video" | "post";
 }
 
-const connectedClients = new Map<string, WebSocket>();
+interface ClientState {
+  userId: string;
+  isAlive: boolean;
+}
+
+const clients = new Map<WebSocket, ClientState>();
+const socketsByUser = new Map<string, Set<WebSocket>>();
+// Last time each fully disconnected user was seen; cleared on reconnect
+const disconnectedAt = new Map<string, number>();
 
 export function setupFriendsWatchingWebSocket(server: Server): void {
-  const wss = new WebSocketServer({ server, path: "/ws/friends-watching" });
-
-  wss.on("connection", (ws, req) => {
-    const clientId = `client-${Date.now()}-${Math.random().toString(36).slice(2)}`;
-    connectedClients.set(clientId, ws);
-
-    ws.on("message", (message) => {
-      try {
-        const data = JSON.parse(message.toString());
-        
-        if (data.type === "viewing_start" || data.type === "viewing_stop") {
-          // Broadcast to all connected clients
-          broadcastViewingUpdate(data as ViewingUpdate, clientId);
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const { pathname } = new URL(req.url || "/", "http://localhost");
+    if (pathname !== WS_PATH) return; // other upgrade handlers (e.g. Vite HMR)
+
+    getSessionUserId(req)
+      .then(async (userId) => {
+        if (!userId) {
+          socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+          socket.destroy();
+          return;
         }
-      } catch (error) {
-        console.error("[WebSocket] Invalid message:", error);
+        if (await getAccountBlock(userId)) {
+          socket.write("HTTP/1.1 403 Forbidden\r\n\r\n");
+          socket.destroy();
+          return;
+        }
+        wss.handleUpgrade(req, socket, head, (ws) => registerClient(ws, userId));
+      })
+      .catch((error) => {
+        console.error("[WebSocket] Upgrade authentication failed:", error);
+        socket.write("HTTP/1.1 500 Internal Server Error\r\n\r\n");
+        socket.destroy();
+      });
+  });
+
+  // Drop sockets that stopped answering pings and expire stale presence
+  const heartbeat = setInterval(() => {
+    for (const [ws, state] of Array.from(clients.entries())) {
+      if (!state.isAlive) {
+        ws.terminate();
+        continue;
       }
-    });
+      state.isAlive = false;
+      ws.ping();
+    }
+    expireStalePresence().catch((error) =>
+      console.error("[WebSocket] Presence expiry failed:", error)
+    );
+  }, HEARTBEAT_INTERVAL_MS);
+  if (heartbeat.unref) heartbeat.unref();
 
-    ws.on("close", () => {
-      connectedClients.delete(clientId);
-    });
+  wss.on("close", () => clearInterval(heartbeat));
 
-    ws.on("error", (error) => {
-      console.error("[WebSocket] Client error:", error);
-      connectedClients.delete(clientId);
-    });
+  console.log("[WebSocket] Friends Watching WebSocket server initialized");
+}
+
+function registerClient(ws: WebSocket, userId: string): void {
+  const state: ClientState = { userId, isAlive: true };
+  clients.set(ws, state);
+  if (!socketsByUser.has(userId)) socketsByUser.set(userId, new Set());
+  socketsByUser.get(userId)!.add(ws);
+  disconnectedAt.delete(userId);
+
+  ws.on("pong", () => {
+    state.isAlive = true;
   });
 
-  console.log("[WebSocket] Friends Watching WebSocket server initialized");
+  // Clients may only send heartbeats; anything else is ignored
+  ws.on("message", (message) => {
+    try {
+      const data = JSON.parse(message.toString());
+      if (data.type === "heartbeat") {
+        state.isAlive = true;
+        ws.send(JSON.stringify({ type: "heartbeat_ack", timestamp: Date.now() }));
+      }
+    } catch (error) {
+      console.error("[WebSocket] Invalid message:", error);
+    }
+  });
+
+  ws.on("close", () => unregisterClient(ws));
+
+  ws.on("error", (error) => {
+    console.error("[WebSocket] Client error:", error);
+    unregisterClient(ws);
+  });
 }
 
-function broadcastViewingUpdate(update: ViewingUpdate, excludeClient: string): void {
-  const message = JSON.stringify(update);
+function unregisterClient(ws: WebSocket): void {
+  const state = clients.get(ws);
+  if (!state) return;
+  clients.delete(ws);
 
-  for (const [clientId, ws] of Array.from(connectedClients.entries())) {
-    if (clientId !== excludeClient && ws.readyState === ws.OPEN) {
+  const sockets = socketsByUser.get(state.userId);
+  sockets?.delete(ws);
+  if (sockets && sockets.size === 0) {
+    socketsByUser.delete(state.userId);
+    disconnectedAt.set(state.userId, Date.now());
+  }
+}
+
+// End open watch sessions for users who disconnected and never came back
+async function expireStalePresence(): Promise<void> {
+  const cutoff = Date.now() - PRESENCE_GRACE_MS;
+
+  for (const [userId, at] of Array.from(disconnectedAt.entries())) {
+    if (at > cutoff) continue;
+    disconnectedAt.delete(userId);
+
+    const ended = await db
+      .update(viewSessions)
+      .set({ endedAt: new Date() })
+      .where(and(eq(viewSessions.userId, userId), isNull(viewSessions.endedAt)))
+      .returning();
+
+    for (const session of ended) {
+      await publishViewingEvent("viewing_stop", userId, session.contentId, session.contentType);
+    }
+  }
+}
+
+// Deliver a server-originated message to every open socket of a user
+export function sendToUser(userId: string, payload: unknown): void {
+  const message = JSON.stringify(payload);
+  for (const ws of Array.from(socketsByUser.get(userId) ?? [])) {
+    if (ws.readyState === ws.OPEN) {
       ws.send(message);
     }
   }
 }
 
-export function broadcastWatchStart(
+// Close every open socket of a user who was just suspended or banned
+export function disconnectUser(userId: string): void {
+  for (const ws of Array.from(socketsByUser.get(userId) ?? [])) {
+    ws.close(4003, "Account suspended");
+  }
+}
+
+// Push a viewing update to the viewer's friends (called from the watch routes)
+export async function publishViewingEvent(
+  type: ViewingUpdate["type"],
   userId: string,
-  userName: string,
-  userImage: string | null,
   contentId: number,
-  contentType: "video" | "post"
-): void {
+  contentType: string
+): Promise<void> {
+  if (contentType !== "video" && contentType !== "post") return;
+
+  const friendIds = (await getFriendIds(userId)).filter((id) => socketsByUser.has(id));
+  if (friendIds.length === 0) return;
+
+  const [user] = await db
+    .select({ displayName: users.displayName, profileImageUrl: users.profileImageUrl })
+    .from(users)
+    .where(eq(users.id, userId));
+
   const update: ViewingUpdate = {
-    type: "viewing_start",
+    type,
     userId,
-    userName,
-    userImage,
+    userName: user?.displayName ?? null,
+    userImage: user?.profileImageUrl ?? null,
     contentId,
     contentType,
   };
 
-  const message = JSON.stringify(update);
-  for (const ws of Array.from(connectedClients.values())) {
-    if (ws.readyState === ws.OPEN) {
-      ws.send(message);
-    }
+  for (const friendId of friendIds) {
+    sendToUser(friendId, update);
   }
 }
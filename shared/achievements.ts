@@ -0,0 +1,86 @@
+// Achievement definitions. Progress is computed from existing activity data
+// (posts, sparks, oracle streaks, view sessions) by the achievements service.
+import type { ChakraType } from "./schema";
+
+export type AchievementCriteria =
+  | { kind: "posts_created" }
+  // Distinct element categories across the user's posts
+  | { kind: "elements_posted" }
+  // Posts of the given chakra the user has sparked
+  | { kind: "chakra_sparks"; chakra: ChakraType }
+  // Longest daily oracle streak (users.longestOracleStreak)
+  | { kind: "oracle_streak" }
+  // Distinct videos the user has watched
+  | { kind: "videos_watched" };
+
+export interface AchievementDefinition {
+  id: string;
+  name: string;
+  description: string;
+  emoji: string;
+  criteria: AchievementCriteria;
+  target: number;
+}
+
+export const achievementDefinitions: AchievementDefinition[] = [
+  {
+    id: "first_light",
+    name: "First Light",
+    description: "Shared your first post",
+    emoji: "🌅",
+    criteria: { kind: "posts_created" },
+    target: 1,
+  },
+  {
+    id: "elemental_balance",
+    name: "Elemental Balance",
+    description: "Posted in all five elements",
+    emoji: "☯️",
+    criteria: { kind: "elements_posted" },
+    target: 5,
+  },
+  {
+    id: "open_heart",
+    name: "Open Heart",
+    description: "Sparked 100 Heart-chakra posts",
+    emoji: "💚",
+    criteria: { kind: "chakra_sparks", chakra: "heart" },
+    target: 100,
+  },
+  {
+    id: "inner_vision",
+    name: "Inner Vision",
+    description: "Sparked 50 Third Eye-chakra posts",
+    emoji: "👁️",
+    criteria: { kind: "chakra_sparks", chakra: "third_eye" },
+    target: 50,
+  },
+  {
+    id: "oracle_devotee",
+    name: "Oracle Devotee",
+    description: "Received a daily oracle reading seven days in a row",
+    emoji: "🔮",
+    criteria: { kind: "oracle_streak" },
+    target: 7,
+  },
+  {
+    id: "lunar_cycle",
+    name: "Lunar Cycle",
+    description: "Received a daily oracle reading 28 days in a row",
+    emoji: "🌕",
+    criteria: { kind: "oracle_streak" },
+    target: 28,
+  },
+  {
+    id: "mindful_witness",
+    name: "Mindful Witness",
+    description: "Watched 25 different videos",
+    emoji: "🎬",
+    criteria: { kind: "videos_watched" },
+    target: 25,
+  },
+];
+
+export function getAchievementDefinition(id: string): AchievementDefinition | undefined {
+  return achievementDefinitions.find((a) => a.id === id);
+}
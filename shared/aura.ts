@@ -0,0 +1,26 @@
+// Aura level thresholds. A level is reached when all three requirements are met.
+export interface AuraLevelConfig {
+  level: number;
+  name: string;
+  // Net energy earned from activity (earn + reversal entries; spending does not count)
+  minLifetimeEnergy: number;
+  // Average positivityScore of authored posts and videos; 0 = no requirement
+  minPositivity: number;
+  minAccountDays: number;
+  // Energy granted once when the level is first reached
+  levelUpReward: number;
+}
+
+export const auraLevels: AuraLevelConfig[] = [
+  { level: 1, name: "Seeker", minLifetimeEnergy: 0, minPositivity: 0, minAccountDays: 0, levelUpReward: 0 },
+  { level: 2, name: "Awakening", minLifetimeEnergy: 100, minPositivity: 50, minAccountDays: 3, levelUpReward: 10 },
+  { level: 3, name: "Radiant", minLifetimeEnergy: 300, minPositivity: 60, minAccountDays: 14, levelUpReward: 20 },
+  { level: 4, name: "Luminous", minLifetimeEnergy: 750, minPositivity: 65, minAccountDays: 30, levelUpReward: 30 },
+  { level: 5, name: "Ascended", minLifetimeEnergy: 1500, minPositivity: 70, minAccountDays: 90, levelUpReward: 50 },
+  { level: 6, name: "Celestial", minLifetimeEnergy: 3000, minPositivity: 75, minAccountDays: 180, levelUpReward: 75 },
+  { level: 7, name: "Transcendent", minLifetimeEnergy: 6000, minPositivity: 80, minAccountDays: 365, levelUpReward: 100 },
+];
+
+export function getAuraLevelConfig(level: number): AuraLevelConfig {
+  return auraLevels.find((l) => l.level === level) ?? auraLevels[0];
+}
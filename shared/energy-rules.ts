@@ -0,0 +1,64 @@
+// Energy earning rules per action, evaluated by the energy ledger
+import type { EarningAction } from "./types";
+
+export interface EarningRule {
+  label: string;
+  // Default reward; sparks pass their type's reward instead
+  baseAmount: number;
+  // Rewarded actions per day (reversed ones still count, so toggling burns the cap)
+  dailyCap: number;
+  // Minimum seconds between two rewarded actions
+  cooldownSeconds: number;
+  // The first `fullRewards` actions of the day pay in full; each later one is
+  // multiplied by `decay` again, never dropping below 1
+  diminishing: { fullRewards: number; decay: number } | null;
+  // Undoing the action (un-spark, delete) takes the reward back
+  reversible: boolean;
+  // Acting on your own content earns nothing
+  noSelfReward: boolean;
+}
+
+export const energyEarningRules: Record<EarningAction, EarningRule> = {
+  post: {
+    label: "Created a new post",
+    baseAmount: 5,
+    dailyCap: 10,
+    cooldownSeconds: 60,
+    diminishing: { fullRewards: 3, decay: 0.5 },
+    reversible: true,
+    noSelfReward: false,
+  },
+  comment: {
+    label: "Commented on a post",
+    baseAmount: 2,
+    dailyCap: 30,
+    cooldownSeconds: 15,
+    diminishing: { fullRewards: 10, decay: 0.5 },
+    reversible: true,
+    noSelfReward: true,
+  },
+  spark: {
+    label: "Sparked a post",
+    baseAmount: 1,
+    dailyCap: 50,
+    cooldownSeconds: 0,
+    diminishing: { fullRewards: 20, decay: 0.5 },
+    reversible: true,
+    noSelfReward: true,
+  },
+  daily_oracle: {
+    label: "Received daily oracle reading",
+    baseAmount: 10,
+    dailyCap: 1,
+    cooldownSeconds: 0,
+    diminishing: null,
+    reversible: false,
+    noSelfReward: false,
+  },
+};
+
+export function diminishedAmount(rule: EarningRule, baseAmount: number, rewardedToday: number): number {
+  if (!rule.diminishing || rewardedToday < rule.diminishing.fullRewards) return baseAmount;
+  const steps = rewardedToday - rule.diminishing.fullRewards + 1;
+  return Math.max(1, Math.floor(baseAmount * Math.pow(rule.diminishing.decay, steps)));
+}
@@ -1,5 +1,9 @@
 import { sql } from "drizzle-orm";
 import { index, jsonb, pgTable, timestamp, varchar, integer, boolean, text } from "drizzle-orm/pg-core";
+import type { AccountStatus, Permission, UserRole } from "../types";
+
+// Signup grant; not recorded in the energy ledger, so balance = STARTING_ENERGY + ledger sum
+export const STARTING_ENERGY = 100;
 
 export const sessions = pgTable(
   "sessions",
@@ -21,16 +25,39 @@ export const users = pgTable("users", {
   displayName: text("display_name"),
   bio: text("bio"),
   auraLevel: integer("aura_level").default(1).notNull(),
-  energyPoints: integer("energy_points").default(100).notNull(),
+  role: text("role").$type<UserRole>().default("user").notNull(),
+  permissions: jsonb("permissions").$type<Permission[]>().default([]).notNull(),
+  energyPoints: integer("energy_points").default(STARTING_ENERGY).notNull(),
   dominantChakra: text("dominant_chakra"),
   spiritualPath: text("spiritual_path"),
   onboardingComplete: boolean("onboarding_complete").default(false).notNull(),
   spiritName: text("spirit_name"),
   spiritDescription: text("spirit_description"),
   spiritImageUrl: text("spirit_image_url"),
+  // IANA timezone; decides where the user's day starts for daily rewards and streaks
+  timezone: text("timezone").default("UTC").notNull(),
+  oracleStreak: integer("oracle_streak").default(0).notNull(),
+  longestOracleStreak: integer("longest_oracle_streak").default(0).notNull(),
+  // Local day (YYYY-MM-DD) of the last daily reading
+  lastOracleDay: varchar("last_oracle_day"),
+  streakFreezes: integer("streak_freezes").default(0).notNull(),
+  // Enforced by isAuthenticated; a suspension lapses on its own at suspendedUntil
+  accountStatus: text("account_status").$type<AccountStatus>().default("active").notNull(),
+  suspendedUntil: timestamp("suspended_until"),
+  accountStatusReason: text("account_status_reason"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  // Must match userSearchVector in server/services/search-service.ts
+  index("idx_users_search").using("gin", sql`to_tsvector('english', coalesce(${table.displayName}, '') || ' ' || coalesce(${table.bio}, ''))`),
+]);
 
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
+
+// What other users see of an author next to their posts and comments
+export type PublicAuthor = Pick<User, "id" | "firstName" | "displayName" | "profileImageUrl" | "auraLevel" | "dominantChakra">;
+
+// A user's public profile page: the author fields plus their bio and spirit
+export type PublicProfile = PublicAuthor &
+  Pick<User, "bio" | "spiritualPath" | "spiritName" | "spiritDescription" | "spiritImageUrl" | "createdAt">;
@@ -0,0 +1,46 @@
+// Moderation queue service levels, claim leases, allowed decisions, bulk limits,
+// re-analysis backoff and appeal limits
+import type { ModerationDecision, ModerationPriority, ModerationTargetType } from "./types";
+
+// Minutes an item may wait in the queue before it breaches its SLA
+export const moderationSlaMinutes: Record<ModerationPriority, number> = {
+  urgent: 60,
+  high: 4 * 60,
+  normal: 24 * 60,
+  low: 72 * 60,
+};
+
+// A claim expires if the moderator doesn't decide (or renew) within this time
+export const CLAIM_LEASE_MINUTES = 15;
+
+// Decisions that make sense for each kind of queue item. Comments have no
+// publish state to age-restrict; user items only clear, action or escalate.
+export const allowedDecisions: Record<ModerationTargetType, ModerationDecision[]> = {
+  // Posts and videos have no author edit path, so request_edits would hide them for good
+  video: ["approved", "rejected", "age_restrict", "escalate"],
+  post: ["approved", "rejected", "age_restrict", "escalate"],
+  comment: ["approved", "rejected", "request_edits", "escalate"],
+  user: ["approved", "rejected", "escalate"],
+};
+
+// Most queue items one bulk decision may touch
+export const BULK_DECISION_LIMIT = 100;
+
+// Scheduled re-analysis of items queued after an AI failure (api_error flag
+// or "Processing error"). Attempt n waits baseDelay × 2^(n-1), capped.
+export const reanalysisRules = {
+  intervalMinutes: 10,
+  batchSize: 20,
+  maxAttempts: 6,
+  baseDelayMinutes: 15,
+  maxDelayMinutes: 24 * 60,
+};
+
+export const appealRules = {
+  // Appeals a creator may file on one piece of content, in total
+  maxPerContent: 2,
+  // Appeals must be filed within this many days of the rejection
+  windowDays: 30,
+  // Wait after an upheld appeal before appealing the same content again
+  cooldownDays: 7,
+};
@@ -0,0 +1,37 @@
+// Role → permission mapping (mirrors the Role Hierarchy table in docs/ADMIN_GUIDE.md)
+import type { Permission, UserRole } from "./types";
+
+export const rolePermissions: Record<UserRole, Permission[]> = {
+  user: [],
+  moderator: [
+    "moderate:read",
+    "moderate:decide",
+    "content:read",
+  ],
+  admin: [
+    "moderate:read",
+    "moderate:decide",
+    "moderate:assign",
+    "analytics:read",
+    "content:read",
+    "content:edit",
+    "users:manage",
+    "system:monitor",
+  ],
+};
+
+// Effective permissions = role defaults + individually granted extras
+export function getEffectivePermissions(
+  role: UserRole,
+  granted: Permission[] | null | undefined
+): Permission[] {
+  return Array.from(new Set([...rolePermissions[role], ...(granted ?? [])]));
+}
+
+export function hasPermission(
+  role: UserRole,
+  granted: Permission[] | null | undefined,
+  permission: Permission
+): boolean {
+  return getEffectivePermissions(role, granted).includes(permission);
+}
@@ -0,0 +1,31 @@
+// Report reason categories and the thresholds that turn reports into review work
+import type { ModerationPriority, ReportReason } from "./types";
+
+export interface ReportReasonConfig {
+  label: string;
+  // Severe reasons go to the moderation queue on the first report
+  severe: boolean;
+}
+
+export const reportReasonConfigs: Record<ReportReason, ReportReasonConfig> = {
+  spam: { label: "Spam or scam", severe: false },
+  harassment: { label: "Harassment or bullying", severe: false },
+  hate_speech: { label: "Hate speech", severe: true },
+  violence: { label: "Violence or threats", severe: true },
+  sexual_content: { label: "Sexual content", severe: false },
+  misinformation: { label: "Harmful misinformation", severe: false },
+  self_harm: { label: "Self-harm or suicide", severe: true },
+  impersonation: { label: "Impersonation", severe: false },
+  other: { label: "Something else", severe: false },
+};
+
+// Pending reports on one target needed for each priority, highest first.
+// Below the lowest threshold nothing is queued (unless a report is severe).
+export const reportThresholds: { reports: number; priority: ModerationPriority }[] = [
+  { reports: 10, priority: "urgent" },
+  { reports: 5, priority: "high" },
+  { reports: 3, priority: "normal" },
+];
+
+// Minimum priority once any pending report on the target is severe
+export const SEVERE_REPORT_PRIORITY: ModerationPriority = "high";
@@ -1,9 +1,12 @@
 export * from "./models/auth";
 
-import { pgTable, text, integer, timestamp, real, jsonb, varchar, bigint, decimal, index } from "drizzle-orm/pg-core";
+import { pgTable, text, integer, timestamp, real, jsonb, varchar, bigint, decimal, boolean, index, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { z } from "zod";
-import { users } from "./models/auth";
-import type { ElementCategory, UploadStatus, ModerationStatus, ModerationPriority, ModerationQueueStatus, AuditAction, ContentType, RecommendationBasis } from "./types";
+import { users, type PublicAuthor } from "./models/auth";
+import { BULK_DECISION_LIMIT } from "./moderation";
+import { userRoles, permissions as permissionList, jobStatuses, jobTypes, searchTypes, tarotSpreadTypes, moderationQueueStatuses, moderationDecisions, bulkModerationDecisions, appealStatuses, appealOutcomes, contentTypes, moderationTargetTypes, reportReasons, reportStatuses } from "./types";
+import type { ElementCategory, UploadStatus, ModerationStatus, ModerationPriority, ModerationQueueStatus, AuditAction, ContentType, AppealStatus, StrikeSource, ModerationTargetType, ReportReason, ReportStatus, ReportResolution, ContentEventType, RecommendationBasis, JobType, JobStatus, NotificationType, EnergyTransactionType, EarningAction } from "./types";
 
 // ============================================
 // Element Categories (immutable, 5 records)
@@ -37,9 +40,12 @@ export const videos = pgTable("videos", {
   moderatedBy: varchar("moderated_by").references(() => users.id),
   moderatedAt: timestamp("moderated_at"),
   positivityScore: integer("positivity_score"),
+  ageRestricted: boolean("age_restricted").default(false).notNull(),
 }, (table) => [
   index("idx_videos_element_status").on(table.elementCategory, table.uploadStatus),
   index("idx_videos_created_at").on(table.createdAt),
+  // Must match videoSearchVector in server/services/search-service.ts
+  index("idx_videos_search").using("gin", sql`to_tsvector('english', ${table.title} || ' ' || coalesce(${table.description}, ''))`),
 ]);
 
 // ============================================
@@ -58,6 +64,21 @@ export const contentTrending = pgTable("content_trending", {
   index("idx_trending_element").on(table.elementCategory, table.trendingScore),
 ]);
 
+// ============================================
+// Content Events table (timestamped views / engagement for trending windows)
+// ============================================
+export const contentEvents = pgTable("content_events", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  contentId: integer("content_id").notNull(),
+  contentType: text("content_type").$type<ContentType>().notNull(),
+  eventType: text("event_type").$type<ContentEventType>().notNull(),
+  userId: varchar("user_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_content_events_content").on(table.contentType, table.contentId, table.createdAt),
+  index("idx_content_events_created_at").on(table.createdAt),
+]);
+
 // ============================================  
 // User Recommendations table
 // ============================================
@@ -76,14 +97,30 @@ export const userRecommendations = pgTable("user_recommendations", {
 // ============================================
 export const moderationQueue = pgTable("moderation_queue", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
-  contentId: integer("content_id").notNull(),
-  contentType: text("content_type").$type<ContentType>().notNull(),
+  // Content items set contentId; user items (from user reports) set targetUserId
+  contentId: integer("content_id"),
+  contentType: text("content_type").$type<ModerationTargetType>().notNull(),
+  targetUserId: varchar("target_user_id").references(() => users.id),
   aiFlaggedReason: text("ai_flagged_reason"),
   priority: text("priority").$type<ModerationPriority>().default("normal").notNull(),
+  // Pending user reports linked to this item
+  reportCount: integer("report_count").default(0).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   status: text("status").$type<ModerationQueueStatus>().default("pending").notNull(),
+  resolvedAt: timestamp("resolved_at"),
+  // Only the assignee may claim an assigned item
+  assignedTo: varchar("assigned_to").references(() => users.id),
+  assignedAt: timestamp("assigned_at"),
+  // Claim lease: status is in_review while claimExpiresAt is in the future
+  claimedBy: varchar("claimed_by").references(() => users.id),
+  claimExpiresAt: timestamp("claim_expires_at"),
+  // Automatic re-analysis of items queued because the AI couldn't assess them
+  reanalysisAttempts: integer("reanalysis_attempts").default(0).notNull(),
+  nextReanalysisAt: timestamp("next_reanalysis_at"),
 }, (table) => [
   index("idx_moderation_status").on(table.status, table.priority),
+  index("idx_moderation_target").on(table.contentType, table.contentId),
+  index("idx_moderation_assigned").on(table.assignedTo, table.status),
 ]);
 
 // ============================================
@@ -95,11 +132,36 @@ export const auditLog = pgTable("audit_log", {
   actorId: varchar("actor_id").references(() => users.id),
   contentId: integer("content_id"),
   contentType: text("content_type").$type<ContentType>(),
+  targetUserId: varchar("target_user_id").references(() => users.id),
   changes: jsonb("changes"),
+  // Shared by every entry written by one bulk moderation action
+  batchId: varchar("batch_id", { length: 36 }),
   timestamp: timestamp("timestamp").defaultNow().notNull(),
 }, (table) => [
   index("idx_audit_timestamp").on(table.timestamp),
+  index("idx_audit_batch").on(table.batchId),
   index("idx_audit_content").on(table.contentId, table.contentType),
+  index("idx_audit_target_user").on(table.targetUserId),
+]);
+
+// ============================================
+// Jobs table (durable background work, leased by workers)
+// ============================================
+export const jobs = pgTable("jobs", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  type: text("type").$type<JobType>().notNull(),
+  payload: jsonb("payload").notNull(),
+  status: text("status").$type<JobStatus>().default("pending").notNull(),
+  attempts: integer("attempts").default(0).notNull(),
+  maxAttempts: integer("max_attempts").default(5).notNull(),
+  runAt: timestamp("run_at").defaultNow().notNull(),
+  leasedUntil: timestamp("leased_until"),
+  lockedBy: varchar("locked_by", { length: 100 }),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_jobs_status_run_at").on(table.status, table.runAt),
 ]);
 
 // ============================================
@@ -117,6 +179,117 @@ export const viewSessions = pgTable("view_sessions", {
   index("idx_view_sessions_active").on(table.userId, table.endedAt),
 ]);
 
+// ============================================
+// Notifications table (per-recipient, pushed over WebSocket)
+// ============================================
+export const notifications = pgTable("notifications", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  actorId: varchar("actor_id").references(() => users.id),
+  type: text("type").$type<NotificationType>().notNull(),
+  contentId: integer("content_id"),
+  contentType: text("content_type").$type<ContentType>(),
+  message: text("message").notNull(),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_notifications_user_created").on(table.userId, table.createdAt),
+  index("idx_notifications_user_unread").on(table.userId, table.readAt),
+]);
+
+// ============================================
+// Follows table (directed; mutual follows are friends)
+// ============================================
+export const follows = pgTable("follows", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  followerId: varchar("follower_id").notNull().references(() => users.id),
+  followingId: varchar("following_id").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("idx_follows_pair").on(table.followerId, table.followingId),
+  index("idx_follows_following").on(table.followingId),
+]);
+
+// ============================================
+// Blocks table (blocking removes follows both ways)
+// ============================================
+export const blocks = pgTable("blocks", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  blockerId: varchar("blocker_id").notNull().references(() => users.id),
+  blockedId: varchar("blocked_id").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("idx_blocks_pair").on(table.blockerId, table.blockedId),
+  index("idx_blocks_blocked").on(table.blockedId),
+]);
+
+// ============================================
+// User Achievements table (progress and award records)
+// ============================================
+export const userAchievements = pgTable("user_achievements", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  // Key into achievementDefinitions (shared/achievements.ts)
+  achievementId: text("achievement_id").notNull(),
+  progress: integer("progress").default(0).notNull(),
+  earnedAt: timestamp("earned_at"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("idx_user_achievements_user_achievement").on(table.userId, table.achievementId),
+]);
+
+// ============================================
+// Appeals table (creators contesting a rejection)
+// ============================================
+export const appeals = pgTable("appeals", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  appellantId: varchar("appellant_id").notNull().references(() => users.id),
+  contentId: integer("content_id").notNull(),
+  contentType: text("content_type").$type<ContentType>().notNull(),
+  statement: text("statement").notNull(),
+  status: text("status").$type<AppealStatus>().default("pending").notNull(),
+  // Moderator whose rejection is appealed; null when the AI rejected it
+  originalDeciderId: varchar("original_decider_id").references(() => users.id),
+  reviewerId: varchar("reviewer_id").references(() => users.id),
+  reviewerNotes: text("reviewer_notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  decidedAt: timestamp("decided_at"),
+}, (table) => [
+  // One open appeal per content item
+  uniqueIndex("idx_appeals_pending_content")
+    .on(table.contentType, table.contentId)
+    .where(sql`${table.status} = 'pending'`),
+  index("idx_appeals_status").on(table.status, table.createdAt),
+  index("idx_appeals_appellant").on(table.appellantId, table.createdAt),
+]);
+
+// ============================================
+// Strikes table (per-creator enforcement ledger; expired or revoked strikes stay for history)
+// ============================================
+export const strikes = pgTable("strikes", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  source: text("source").$type<StrikeSource>().notNull(),
+  contentType: text("content_type").$type<ModerationTargetType>().notNull(),
+  contentId: integer("content_id"),
+  queueItemId: integer("queue_item_id").references(() => moderationQueue.id),
+  // Set on the one strike a bulk rejection gives each offender; it covers all
+  // of their items in the batch (audit_log entries with the same batch id)
+  batchId: varchar("batch_id", { length: 36 }),
+  issuedBy: varchar("issued_by").references(() => users.id),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  // Set when an appeal overturns the decision behind the strike
+  revokedAt: timestamp("revoked_at"),
+}, (table) => [
+  // One strike per decided queue item
+  uniqueIndex("idx_strikes_queue_item").on(table.queueItemId),
+  uniqueIndex("idx_strikes_batch_user").on(table.batchId, table.userId),
+  index("idx_strikes_user").on(table.userId, table.expiresAt),
+  index("idx_strikes_content").on(table.contentType, table.contentId),
+]);
+
 export const chakraTypes = [
   "root",
   "sacral",
@@ -149,6 +322,18 @@ export const chakraLabels: Record<ChakraType, string> = {
   crown: "Crown",
 };
 
+// Reaction types for sparks, each resonating with a chakra
+export const sparkTypes = ["light", "love", "gratitude", "insight"] as const;
+
+export type SparkType = (typeof sparkTypes)[number];
+
+export const sparkTypeConfig: Record<SparkType, { label: string; chakra: ChakraType; energyReward: number }> = {
+  light: { label: "Light", chakra: "crown", energyReward: 1 },
+  love: { label: "Love", chakra: "heart", energyReward: 2 },
+  gratitude: { label: "Gratitude", chakra: "solar_plexus", energyReward: 2 },
+  insight: { label: "Insight", chakra: "third_eye", energyReward: 3 },
+};
+
 export const posts = pgTable("posts", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
   authorId: varchar("author_id")
@@ -159,6 +344,7 @@ export const posts = pgTable("posts", {
   chakraType: text("chakra_type").$type<ChakraType>(),
   frequencyScore: real("frequency_score"),
   sparkCount: integer("spark_count").default(0).notNull(),
+  sparkCounts: jsonb("spark_counts").$type<Partial<Record<SparkType, number>>>().default({}).notNull(),
   commentCount: integer("comment_count").default(0).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   // New fields for video elements content platform
@@ -169,12 +355,17 @@ export const posts = pgTable("posts", {
   viewCount: integer("view_count").default(0).notNull(),
   engagementScore: integer("engagement_score").default(0),
   positivityScore: integer("positivity_score"),
+  ageRestricted: boolean("age_restricted").default(false).notNull(),
 }, (table) => [
   index("idx_posts_element_status").on(table.elementCategory, table.uploadStatus),
   index("idx_posts_created_at").on(table.createdAt),
   index("idx_posts_moderation").on(table.moderationStatus),
+  // Must match postSearchVector in server/services/search-service.ts
+  index("idx_posts_search").using("gin", sql`to_tsvector('english', ${table.content})`),
 ]);
 
+export const MAX_COMMENT_DEPTH = 3;
+
 export const comments = pgTable("comments", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
   postId: integer("post_id")
@@ -183,9 +374,33 @@ export const comments = pgTable("comments", {
   authorId: varchar("author_id")
     .notNull()
     .references(() => users.id),
+  parentId: integer("parent_id").references((): AnyPgColumn => comments.id),
+  depth: integer("depth").default(0).notNull(),
   content: text("content").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+  editedAt: timestamp("edited_at"),
+  deletedAt: timestamp("deleted_at"),
+  safetyAssessment: jsonb("safety_assessment"),
+  moderationStatus: text("moderation_status").$type<ModerationStatus>().default("auto_approved").notNull(),
+  positivityScore: integer("positivity_score"),
+}, (table) => [
+  index("idx_comments_post").on(table.postId, table.createdAt),
+  index("idx_comments_parent").on(table.parentId),
+]);
+
+export const commentEdits = pgTable("comment_edits", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  commentId: integer("comment_id")
+    .notNull()
+    .references(() => comments.id),
+  editorId: varchar("editor_id")
+    .notNull()
+    .references(() => users.id),
+  previousContent: text("previous_content").notNull(),
+  editedAt: timestamp("edited_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_comment_edits_comment").on(table.commentId),
+]);
 
 export const sparks = pgTable("sparks", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
@@ -195,9 +410,11 @@ export const sparks = pgTable("sparks", {
   userId: varchar("user_id")
     .notNull()
     .references(() => users.id),
-  sparkType: text("spark_type").default("light").notNull(),
+  sparkType: text("spark_type").$type<SparkType>().default("light").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  uniqueIndex("idx_sparks_post_user").on(table.postId, table.userId),
+]);
 
 export const oracles = pgTable("oracles", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
@@ -217,21 +434,51 @@ export const energyTransactions = pgTable("energy_transactions", {
     .notNull()
     .references(() => users.id),
   amount: integer("amount").notNull(),
-  transactionType: text("transaction_type").notNull(),
+  transactionType: text("transaction_type").$type<EnergyTransactionType>().notNull(),
   description: text("description"),
+  // Caller-supplied key; a repeated key returns the original entry instead of applying twice
+  idempotencyKey: varchar("idempotency_key", { length: 200 }),
+  balanceAfter: integer("balance_after"),
+  // Earning rule bookkeeping: which action paid out, for what (e.g. "spark:42"),
+  // and for reversals, the entry being taken back
+  action: text("action").$type<EarningAction>(),
+  subjectKey: varchar("subject_key", { length: 200 }),
+  reversalOf: integer("reversal_of").references((): AnyPgColumn => energyTransactions.id),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  uniqueIndex("idx_energy_tx_idempotency").on(table.userId, table.idempotencyKey),
+  index("idx_energy_tx_user_created").on(table.userId, table.createdAt),
+  index("idx_energy_tx_subject").on(table.userId, table.subjectKey),
+  index("idx_energy_tx_action").on(table.userId, table.action, table.createdAt),
+]);
 
 export const reports = pgTable("reports", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
   reporterId: varchar("reporter_id")
     .notNull()
     .references(() => users.id),
-  postId: integer("post_id").references(() => posts.id),
-  reason: text("reason").notNull(),
-  status: text("status").default("pending").notNull(),
+  // Same targeting as moderationQueue: contentId for content, targetUserId for users
+  contentType: text("content_type").$type<ModerationTargetType>().notNull(),
+  contentId: integer("content_id"),
+  targetUserId: varchar("target_user_id").references(() => users.id),
+  reason: text("reason").$type<ReportReason>().notNull(),
+  details: text("details"),
+  status: text("status").$type<ReportStatus>().default("pending").notNull(),
+  resolution: text("resolution").$type<ReportResolution>(),
+  queueItemId: integer("queue_item_id").references(() => moderationQueue.id),
+  resolvedAt: timestamp("resolved_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  // One pending report per reporter and target
+  uniqueIndex("idx_reports_pending_content")
+    .on(table.reporterId, table.contentType, table.contentId)
+    .where(sql`${table.status} = 'pending' AND ${table.contentId} IS NOT NULL`),
+  uniqueIndex("idx_reports_pending_user")
+    .on(table.reporterId, table.targetUserId)
+    .where(sql`${table.status} = 'pending' AND ${table.targetUserId} IS NOT NULL`),
+  index("idx_reports_target").on(table.contentType, table.contentId, table.status),
+  index("idx_reports_queue_item").on(table.queueItemId),
+]);
 
 export const insertPostSchema = z.object({
   authorId: z.string(),
@@ -244,12 +491,23 @@ export const insertCommentSchema = z.object({
   postId: z.number(),
   authorId: z.string(),
   content: z.string().min(1),
+  parentId: z.number().int().positive().optional(),
+});
+
+export const sparkReactionSchema = z.object({
+  sparkType: z.enum(sparkTypes).default("light"),
+});
+
+export const updateCommentSchema = z.object({
+  content: z.string().min(1),
 });
 
 export type InsertPost = z.infer<typeof insertPostSchema>;
 export type Post = typeof posts.$inferSelect;
 export type InsertComment = z.infer<typeof insertCommentSchema>;
 export type Comment = typeof comments.$inferSelect;
+export type CommentEdit = typeof commentEdits.$inferSelect;
+export type CommentNode = Comment & { author: PublicAuthor; replies: CommentNode[] };
 export type Spark = typeof sparks.$inferSelect;
 export type Oracle = typeof oracles.$inferSelect;
 export type EnergyTransaction = typeof energyTransactions.$inferSelect;
@@ -260,10 +518,18 @@ export type Video = typeof videos.$inferSelect;
 export type InsertVideo = typeof videos.$inferInsert;
 export type ElementCategoryRecord = typeof elementCategories.$inferSelect;
 export type ContentTrendingRecord = typeof contentTrending.$inferSelect;
+export type ContentEvent = typeof contentEvents.$inferSelect;
 export type UserRecommendation = typeof userRecommendations.$inferSelect;
 export type ModerationQueueRecord = typeof moderationQueue.$inferSelect;
 export type AuditLogRecord = typeof auditLog.$inferSelect;
 export type ViewSession = typeof viewSessions.$inferSelect;
+export type Follow = typeof follows.$inferSelect;
+export type Block = typeof blocks.$inferSelect;
+export type Job = typeof jobs.$inferSelect;
+export type Notification = typeof notifications.$inferSelect;
+export type UserAchievement = typeof userAchievements.$inferSelect;
+export type Appeal = typeof appeals.$inferSelect;
+export type Strike = typeof strikes.$inferSelect;
 
 export const insertVideoSchema = z.object({
   title: z.string().min(1).max(255),
@@ -278,8 +544,124 @@ export const insertElementPostSchema = z.object({
   elementCategory: z.enum(["Water", "Fire", "Earth", "Air", "Spiritual"]).optional(),
 });
 
-export const moderationDecisionSchema = z.object({
-  decision: z.enum(["approved", "rejected"]),
-  notes: z.string().optional(),
+export const updateUserRoleSchema = z.object({
+  role: z.enum(userRoles),
+});
+
+export const grantPermissionSchema = z.object({
+  permission: z.enum(permissionList),
+});
+
+export const suspendUserSchema = z.object({
+  reason: z.string().trim().min(1).max(500),
+  durationHours: z.number().int().min(1).max(365 * 24),
+});
+
+export const banUserSchema = z.object({
+  reason: z.string().trim().min(1).max(500),
+});
+
+export const reinstateUserSchema = z.object({
+  reason: z.string().trim().max(500).optional(),
+});
+
+export const jobListQuerySchema = z.object({
+  status: z.enum(jobStatuses).optional(),
+  type: z.enum(jobTypes).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+});
+
+export const searchQuerySchema = z.object({
+  q: z.string().trim().min(2).max(200),
+  type: z.enum(searchTypes).optional(),
+  element: z.enum(["Water", "Fire", "Earth", "Air", "Spiritual"]).optional(),
+  chakra: z.enum(chakraTypes).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(50).optional(),
+});
+
+export const notificationListQuerySchema = z.object({
+  unread: z.enum(["true", "false"]).transform((v) => v === "true").optional(),
+  before: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+export const markNotificationsReadSchema = z.object({
+  ids: z.array(z.number().int().positive()).optional(),
+});
+
+// targetId is a user id for user reports and a numeric content id otherwise
+export const createReportSchema = z.object({
+  targetType: z.enum(moderationTargetTypes),
+  targetId: z.union([z.number().int().positive(), z.string().trim().min(1).max(255)]),
+  reason: z.enum(reportReasons),
+  details: z.string().trim().max(1000).optional(),
+}).refine(
+  (r) => r.targetType === "user" || /^[1-9]\d*$/.test(String(r.targetId)),
+  { message: "Content reports need a numeric targetId", path: ["targetId"] }
+);
+
+export const moderationQueueQuerySchema = z.object({
+  status: z.enum(moderationQueueStatuses).default("pending"),
+  // "me" or a moderator's user id
+  assignedTo: z.string().min(1).optional(),
+  slaBreached: z.enum(["true", "false"]).transform((v) => v === "true").optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
 });
 
+export const assignQueueItemSchema = z.object({
+  assigneeId: z.string().min(1).nullable(),
+});
+
+export const createAppealSchema = z.object({
+  contentType: z.enum(contentTypes),
+  contentId: z.number().int().positive(),
+  statement: z.string().trim().min(20).max(2000),
+});
+
+export const appealDecisionSchema = z.object({
+  outcome: z.enum(appealOutcomes),
+  notes: z.string().trim().max(2000).optional(),
+});
+
+export const appealListQuerySchema = z.object({
+  status: z.enum(appealStatuses).default("pending"),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+});
+
+export const reportListQuerySchema = z.object({
+  status: z.enum(reportStatuses).optional(),
+  queueItemId: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+});
+
+export const tarotReadingSchema = z.object({
+  spread: z.enum(tarotSpreadTypes).default("three_card"),
+});
+
+export const energyReconcileSchema = z.object({
+  repair: z.boolean().default(false),
+});
+
+export const moderationDecisionSchema = z.object({
+  decision: z.enum(moderationDecisions),
+  notes: z.string().trim().max(2000).optional(),
+}).refine(
+  (d) => d.decision !== "request_edits" || !!d.notes,
+  { message: "Explain what the author needs to change", path: ["notes"] }
+);
+
+export const bulkModerationDecisionSchema = z.object({
+  decision: z.enum(bulkModerationDecisions),
+  notes: z.string().trim().max(2000).optional(),
+  itemIds: z.array(z.number().int().positive()).min(1).max(BULK_DECISION_LIMIT).optional(),
+  filter: z.object({
+    authorId: z.string().min(1).optional(),
+    flag: z.string().trim().min(1).max(100).optional(),
+  }).refine((f) => f.authorId || f.flag, { message: "Filter by authorId or flag" }).optional(),
+}).refine(
+  (d) => !d.itemIds !== !d.filter,
+  { message: "Provide either itemIds or filter" }
+);
+
@@ -0,0 +1,30 @@
+// Daily oracle streak rules: bonus multipliers and streak recovery
+export interface StreakMultiplier {
+  minDays: number;
+  multiplier: number;
+}
+
+export interface OracleStreakRules {
+  // Highest matching tier applies to the daily reading reward
+  multipliers: StreakMultiplier[];
+  // A streak freeze is earned every `freezeEvery` consecutive days
+  freezeEvery: number;
+  maxFreezes: number;
+}
+
+// Each missed day uses up one freeze. If there are enough freezes to cover the
+// whole gap, the streak carries on; otherwise it restarts at 1.
+export const oracleStreakRules: OracleStreakRules = {
+  multipliers: [
+    { minDays: 30, multiplier: 2 },
+    { minDays: 14, multiplier: 1.75 },
+    { minDays: 7, multiplier: 1.5 },
+    { minDays: 3, multiplier: 1.25 },
+  ],
+  freezeEvery: 7,
+  maxFreezes: 2,
+};
+
+export function streakMultiplier(streak: number): number {
+  return oracleStreakRules.multipliers.find((m) => streak >= m.minDays)?.multiplier ?? 1;
+}
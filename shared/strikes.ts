@@ -0,0 +1,44 @@
+// Strike expiry and the restrictions that repeated strikes trigger
+import type { RestrictedAction, RestrictionType } from "./types";
+
+// Strikes stop counting toward restrictions after this many days
+export const STRIKE_EXPIRY_DAYS = 90;
+
+export interface StrikeThreshold {
+  strikes: number;
+  restriction: RestrictionType;
+  // Measured from the most recent strike
+  hours: number;
+}
+
+// Active strikes needed for each restriction, most severe first.
+// Below the lowest threshold the creator is unrestricted. Reaching "suspended"
+// also suspends the account itself for the same time.
+export const strikeThresholds: StrikeThreshold[] = [
+  { strikes: 5, restriction: "suspended", hours: 30 * 24 },
+  { strikes: 3, restriction: "posting_restricted", hours: 7 * 24 },
+  { strikes: 2, restriction: "upload_cooldown", hours: 48 },
+];
+
+export interface RestrictionConfig {
+  blocks: RestrictedAction[];
+  // Shown to the creator, followed by the end date
+  message: string;
+}
+
+export const restrictionConfigs: Record<RestrictionType, RestrictionConfig> = {
+  upload_cooldown: {
+    blocks: ["upload_video"],
+    message: "Video uploads are paused after repeated community guideline strikes",
+  },
+  posting_restricted: {
+    blocks: ["upload_video", "create_post", "create_comment"],
+    message: "Posting is restricted after repeated community guideline strikes",
+  },
+  // The account suspension already locks the user out; this still applies if
+  // an admin reinstates the account early
+  suspended: {
+    blocks: ["upload_video", "create_post", "create_comment"],
+    message: "Your creator privileges are suspended after repeated community guideline strikes",
+  },
+};
@@ -0,0 +1,170 @@
+// Tarot deck (78 cards: 22 Major + 56 Minor Arcana) and spread definitions
+import type { TarotSpreadType } from "./types";
+
+export type TarotSuit = "Wands" | "Cups" | "Swords" | "Pentacles";
+
+export interface TarotCard {
+  id: number;
+  name: string;
+  arcana: "major" | "minor";
+  suit: TarotSuit | null;
+  upright: string;
+  reversed: string;
+}
+
+export interface TarotSpread {
+  name: string;
+  positions: string[];
+  energyCost: number;
+}
+
+// [name, upright meaning, reversed meaning]
+type CardMeaning = [string, string, string];
+
+const MAJOR_ARCANA: CardMeaning[] = [
+  ["The Fool", "new beginnings, spontaneity and a leap of faith", "hesitation, recklessness or fear of the unknown"],
+  ["The Magician", "manifestation, skill and focused willpower", "scattered energy, manipulation or untapped talent"],
+  ["The High Priestess", "intuition, mystery and inner knowing", "secrets, disconnection from intuition or withdrawal"],
+  ["The Empress", "abundance, nurturing and creative fertility", "creative block, dependence or neglect of self-care"],
+  ["The Emperor", "structure, authority and stability", "rigidity, domination or lack of discipline"],
+  ["The Hierophant", "tradition, spiritual guidance and shared belief", "rebellion, unconventional paths or restriction"],
+  ["The Lovers", "union, alignment of values and meaningful choice", "disharmony, imbalance or misaligned values"],
+  ["The Chariot", "determination, willpower and victory through focus", "lack of direction, aggression or stalled progress"],
+  ["Strength", "courage, compassion and gentle inner power", "self-doubt, low energy or raw emotion"],
+  ["The Hermit", "introspection, solitude and inner guidance", "isolation, loneliness or withdrawal from others"],
+  ["Wheel of Fortune", "cycles, destiny and a turning point", "resistance to change, setbacks or broken cycles"],
+  ["Justice", "fairness, truth and cause and effect", "dishonesty, imbalance or avoiding accountability"],
+  ["The Hanged Man", "surrender, new perspective and sacred pause", "stalling, indecision or needless sacrifice"],
+  ["Death", "endings, transformation and release", "resistance to change or clinging to the past"],
+  ["Temperance", "balance, moderation and patient alchemy", "excess, imbalance or lack of long-term vision"],
+  ["The Devil", "attachment, shadow work and material bonds", "release, breaking free and reclaiming power"],
+  ["The Tower", "sudden upheaval, revelation and awakening", "averted disaster or fear of necessary change"],
+  ["The Star", "hope, renewal and spiritual healing", "discouragement, faithlessness or disconnection"],
+  ["The Moon", "illusion, dreams and the subconscious", "release of fear, clarity or repressed emotion surfacing"],
+  ["The Sun", "joy, vitality and radiant success", "temporary clouds, dimmed optimism or inner child blocked"],
+  ["Judgement", "rebirth, inner calling and absolution", "self-doubt, harsh self-judgement or ignoring the call"],
+  ["The World", "completion, wholeness and fulfilment", "unfinished business, shortcuts or seeking closure"],
+];
+
+const MINOR_ARCANA: Record<TarotSuit, CardMeaning[]> = {
+  Wands: [
+    ["Ace", "inspiration, new passion and creative spark", "delays, lack of motivation or false starts"],
+    ["Two", "planning, bold decisions and future vision", "fear of the unknown or poor planning"],
+    ["Three", "expansion, foresight and momentum", "obstacles, delays or frustration with progress"],
+    ["Four", "celebration, harmony and homecoming", "transition, instability or lack of support"],
+    ["Five", "healthy competition and creative conflict", "avoiding conflict or inner tension"],
+    ["Six", "recognition, victory and public acclaim", "ego, fall from grace or private achievement"],
+    ["Seven", "perseverance and standing your ground", "overwhelm, giving up or feeling besieged"],
+    ["Eight", "swift action, movement and rapid change", "delays, frustration or scattered energy"],
+    ["Nine", "resilience, persistence and last stand", "exhaustion, paranoia or defensiveness"],
+    ["Ten", "responsibility, hard work and burden", "release of burdens or delegating"],
+    ["Page", "enthusiasm, exploration and free spirit", "unfocused energy or hasty beginnings"],
+    ["Knight", "adventure, passion and bold action", "impulsiveness, haste or frustration"],
+    ["Queen", "confidence, warmth and determination", "jealousy, insecurity or burnout"],
+    ["King", "visionary leadership and entrepreneurship", "impulsiveness, overbearing or high expectations"],
+  ],
+  Cups: [
+    ["Ace", "new love, compassion and emotional renewal", "blocked emotions or emptiness"],
+    ["Two", "partnership, mutual attraction and connection", "imbalance in a relationship or broken bonds"],
+    ["Three", "friendship, community and celebration", "overindulgence or isolation from friends"],
+    ["Four", "contemplation, apathy and reevaluation", "new awareness and acceptance of offers"],
+    ["Five", "loss, grief and regret", "acceptance, moving on and forgiveness"],
+    ["Six", "nostalgia, innocence and happy memories", "living in the past or unrealistic memories"],
+    ["Seven", "choices, imagination and wishful thinking", "clarity, alignment and decisive choice"],
+    ["Eight", "walking away and seeking deeper meaning", "fear of moving on or aimless drifting"],
+    ["Nine", "contentment, gratitude and wishes granted", "dissatisfaction or materialism"],
+    ["Ten", "harmony, family and emotional fulfilment", "disconnection or misaligned values at home"],
+    ["Page", "creative opportunity and intuitive messages", "emotional immaturity or creative block"],
+    ["Knight", "romance, charm and following the heart", "moodiness or unrealistic expectations"],
+    ["Queen", "compassion, calm and emotional security", "codependence or emotional overwhelm"],
+    ["King", "emotional balance, diplomacy and generosity", "emotional manipulation or volatility"],
+  ],
+  Swords: [
+    ["Ace", "clarity, breakthrough and truth", "confusion, chaos or clouded judgement"],
+    ["Two", "difficult choices and stalemate", "indecision, information overload or release of tension"],
+    ["Three", "heartbreak, sorrow and painful truth", "recovery, forgiveness and releasing pain"],
+    ["Four", "rest, recovery and contemplation", "restlessness, burnout or stagnation"],
+    ["Five", "conflict, tension and hollow victory", "reconciliation and making amends"],
+    ["Six", "transition, moving on and calmer waters", "resistance to change or unfinished business"],
+    ["Seven", "strategy, stealth and going it alone", "coming clean or rethinking an approach"],
+    ["Eight", "restriction, self-limiting belief and feeling trapped", "self-acceptance, new perspective and freedom"],
+    ["Nine", "anxiety, worry and sleepless nights", "hope, reaching out and releasing worry"],
+    ["Ten", "painful ending and hitting bottom", "recovery, regeneration and surviving the worst"],
+    ["Page", "curiosity, new ideas and thirst for knowledge", "scattered thoughts or all talk, no action"],
+    ["Knight", "ambition, drive and fast thinking", "restlessness, haste or burnout"],
+    ["Queen", "independence, clear boundaries and honesty", "coldness or cruelty in words"],
+    ["King", "intellectual power, truth and authority", "misuse of power or manipulation"],
+  ],
+  Pentacles: [
+    ["Ace", "new opportunity, prosperity and manifestation", "missed chance or poor planning"],
+    ["Two", "balance, adaptability and juggling priorities", "overwhelm or disorganisation"],
+    ["Three", "teamwork, collaboration and craftsmanship", "lack of teamwork or misalignment"],
+    ["Four", "security, saving and control", "greed, scarcity mindset or letting go"],
+    ["Five", "hardship, isolation and need", "recovery from loss and spiritual renewal"],
+    ["Six", "generosity, giving and receiving", "strings attached, debt or one-sided charity"],
+    ["Seven", "patience, long-term view and investment", "impatience or lack of reward for effort"],
+    ["Eight", "diligence, mastery and skill development", "perfectionism or lack of focus"],
+    ["Nine", "abundance, self-sufficiency and luxury", "overwork or financial setbacks"],
+    ["Ten", "legacy, lasting wealth and family", "fleeting success or loss of stability"],
+    ["Page", "ambition, diligence and new venture", "lack of progress or procrastination"],
+    ["Knight", "routine, reliability and steady progress", "boredom, stagnation or laziness"],
+    ["Queen", "nurturing, practicality and abundance", "self-neglect or work-home imbalance"],
+    ["King", "wealth, discipline and security", "greed, stubbornness or over-control"],
+  ],
+};
+
+export const tarotDeck: TarotCard[] = [
+  ...MAJOR_ARCANA.map(([name, upright, reversed], i): TarotCard => ({
+    id: i,
+    name,
+    arcana: "major",
+    suit: null,
+    upright,
+    reversed,
+  })),
+  ...(Object.entries(MINOR_ARCANA) as [TarotSuit, CardMeaning[]][]).flatMap(([suit, cards], s) =>
+    cards.map(([rank, upright, reversed], i): TarotCard => ({
+      id: MAJOR_ARCANA.length + s * 14 + i,
+      name: `${rank} of ${suit}`,
+      arcana: "minor",
+      suit,
+      upright,
+      reversed,
+    }))
+  ),
+];
+
+export const tarotSpreads: Record<TarotSpreadType, TarotSpread> = {
+  single: {
+    name: "Single card",
+    positions: ["Guidance"],
+    energyCost: 5,
+  },
+  three_card: {
+    name: "Three-card spread",
+    positions: ["Past", "Present", "Future"],
+    energyCost: 15,
+  },
+  celtic_cross: {
+    name: "Celtic Cross",
+    positions: [
+      "Present",
+      "Challenge",
+      "Foundation",
+      "Recent Past",
+      "Crown",
+      "Near Future",
+      "Self",
+      "Environment",
+      "Hopes and Fears",
+      "Outcome",
+    ],
+    energyCost: 30,
+  },
+  // One card per chakra, root to crown
+  chakra: {
+    name: "Chakra spread",
+    positions: ["Root", "Sacral", "Solar Plexus", "Heart", "Throat", "Third Eye", "Crown"],
+    energyCost: 25,
+  },
+};
@@ -43,20 +43,173 @@ export const moderationPriorities = [
 
 export type ModerationPriority = (typeof moderationPriorities)[number];
 
+export const moderationDecisions = [
+  "approved",
+  "rejected",
+  "request_edits",
+  "age_restrict",
+  "escalate",
+] as const;
+
+export type ModerationDecision = (typeof moderationDecisions)[number];
+
+// Decisions that make sense across many items at once
+export const bulkModerationDecisions = ["approved", "rejected", "escalate"] as const;
+
+export const appealStatuses = ["pending", "upheld", "overturned"] as const;
+
+export type AppealStatus = (typeof appealStatuses)[number];
+
+// upheld = the rejection stands; overturned = the content is restored
+export const appealOutcomes = ["upheld", "overturned"] as const;
+
+export type AppealOutcome = (typeof appealOutcomes)[number];
+
+// Why a strike was issued: the creator's content was rejected, or reports
+// against them (or their content) were upheld
+export const strikeSources = ["content_rejected", "report_upheld"] as const;
+
+export type StrikeSource = (typeof strikeSources)[number];
+
+// Restrictions triggered by active strikes, mildest first
+export const restrictionTypes = ["upload_cooldown", "posting_restricted", "suspended"] as const;
+
+export type RestrictionType = (typeof restrictionTypes)[number];
+
+// Creation actions a restriction can block
+export const restrictedActions = ["upload_video", "create_post", "create_comment"] as const;
+
+export type RestrictedAction = (typeof restrictedActions)[number];
+
 export const auditActions = [
   "upload",
   "categorize",
   "moderate",
   "publish",
   "reject",
+  "grant_role",
+  "grant_permission",
+  "revoke_permission",
+  "reconcile_energy",
+  "assign",
+  "request_edits",
+  "age_restrict",
+  "escalate",
+  "appeal_upheld",
+  "appeal_overturned",
+  "suspend",
+  "ban",
+  "reinstate",
 ] as const;
 
 export type AuditAction = (typeof auditActions)[number];
 
-export const contentTypes = ["video", "post"] as const;
+export const contentTypes = ["video", "post", "comment"] as const;
 
 export type ContentType = (typeof contentTypes)[number];
 
+// Anything that can be reported or queued for review: content or a user account
+export const moderationTargetTypes = ["video", "post", "comment", "user"] as const;
+
+export type ModerationTargetType = (typeof moderationTargetTypes)[number];
+
+export const reportReasons = [
+  "spam",
+  "harassment",
+  "hate_speech",
+  "violence",
+  "sexual_content",
+  "misinformation",
+  "self_harm",
+  "impersonation",
+  "other",
+] as const;
+
+export type ReportReason = (typeof reportReasons)[number];
+
+export const reportStatuses = ["pending", "resolved"] as const;
+
+export type ReportStatus = (typeof reportStatuses)[number];
+
+export const reportResolutions = ["actioned", "no_violation"] as const;
+
+export type ReportResolution = (typeof reportResolutions)[number];
+
+export const userRoles = ["user", "moderator", "admin"] as const;
+
+export type UserRole = (typeof userRoles)[number];
+
+// Suspensions are time-limited; bans last until an admin reinstates the user
+export const accountStatuses = ["active", "suspended", "banned"] as const;
+
+export type AccountStatus = (typeof accountStatuses)[number];
+
+export const permissions = [
+  "moderate:read",
+  "moderate:decide",
+  "moderate:assign",
+  "analytics:read",
+  "content:read",
+  "content:edit",
+  "users:manage",
+  "system:monitor",
+] as const;
+
+export type Permission = (typeof permissions)[number];
+
+export const contentEventTypes = [
+  "view",
+  "spark",
+  "comment",
+  "engagement",
+] as const;
+
+export type ContentEventType = (typeof contentEventTypes)[number];
+
+export const jobTypes = ["analyze_video", "analyze_post", "analyze_comment", "reconcile_energy"] as const;
+
+export type JobType = (typeof jobTypes)[number];
+
+export const jobStatuses = [
+  "pending",
+  "running",
+  "completed",
+  "dead",
+  "cancelled",
+] as const;
+
+export type JobStatus = (typeof jobStatuses)[number];
+
+export const energyTransactionTypes = ["earn", "spend", "refund", "adjustment", "reversal", "level_up"] as const;
+
+export type EnergyTransactionType = (typeof energyTransactionTypes)[number];
+
+export const earningActions = ["post", "comment", "spark", "daily_oracle"] as const;
+
+export type EarningAction = (typeof earningActions)[number];
+
+export const notificationTypes = [
+  "spark",
+  "comment",
+  "reply",
+  "follow",
+  "content_published",
+  "content_under_review",
+  "content_rejected",
+  "content_edits_requested",
+  "content_age_restricted",
+  "appeal_upheld",
+  "appeal_overturned",
+  "achievement_earned",
+  "report_resolved",
+] as const;
+
+export type NotificationType = (typeof notificationTypes)[number];
+
+export const tarotSpreadTypes = ["single", "three_card", "celtic_cross", "chakra"] as const;
+
+export type TarotSpreadType = (typeof tarotSpreadTypes)[number];
+
 export const recommendationBases = [
   "viewing_history",
   "category_curated",
@@ -129,6 +282,8 @@ export interface FeedItem {
   durationSeconds?: number | null;
   viewCount: number;
   positivityScore: number | null;
+  // Published behind a content warning after moderation
+  ageRestricted?: boolean;
   createdAt: string;
   author?: {
     id: string;
@@ -137,6 +292,90 @@ export interface FeedItem {
   };
 }
 
+// Cursor-paginated feed page
+export interface FeedPage {
+  items: FeedItem[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+export const searchTypes = ["post", "video", "user"] as const;
+
+export type SearchType = (typeof searchTypes)[number];
+
+// Content search hit; rank is text relevance weighted by positivity
+export interface SearchContentItem extends FeedItem {
+  rank: number;
+}
+
+export interface SearchUserItem {
+  id: string;
+  displayName: string | null;
+  profileImageUrl: string | null;
+  bio: string | null;
+  dominantChakra: string | null;
+  rank: number;
+}
+
+export interface SearchResults {
+  query: string;
+  content: SearchContentItem[];
+  users: SearchUserItem[];
+}
+
+// Inputs to the aura level computation
+export interface AuraStats {
+  lifetimeEnergy: number;
+  averagePositivity: number | null;
+  accountAgeDays: number;
+}
+
+// Current aura level and progress toward the next; fractions are 0..1
+export interface AuraProgress {
+  userId: string;
+  level: number;
+  name: string;
+  stats: AuraStats;
+  nextLevel: {
+    level: number;
+    name: string;
+    requirements: { lifetimeEnergy: number; averagePositivity: number; accountAgeDays: number };
+  } | null;
+  progress: {
+    lifetimeEnergy: number;
+    averagePositivity: number;
+    accountAgeDays: number;
+    overall: number;
+  } | null;
+}
+
+// A user's unexpired strikes and the restriction they currently trigger
+export interface StrikeStanding {
+  activeStrikes: number;
+  restriction: RestrictionType | null;
+  restrictedUntil: string | null;
+  strikes: {
+    id: number;
+    source: StrikeSource;
+    contentType: ModerationTargetType;
+    contentId: number | null;
+    reason: string | null;
+    createdAt: string;
+    expiresAt: string;
+  }[];
+}
+
+// Achievement with the user's progress; earnedAt is set once the target is reached
+export interface AchievementProgress {
+  id: string;
+  name: string;
+  description: string;
+  emoji: string;
+  progress: number;
+  target: number;
+  earnedAt: string | null;
+}
+
 // Trending item
 export interface TrendingItem extends FeedItem {
   trendingScore: number;
@@ -147,13 +386,30 @@ export interface TrendingItem extends FeedItem {
 // Moderation queue item
 export interface ModerationQueueItem {
   id: number;
-  contentId: number;
-  contentType: ContentType;
+  // Null for user items, which set targetUserId instead
+  contentId: number | null;
+  contentType: ModerationTargetType;
+  targetUserId: string | null;
   aiFlaggedReason: string | null;
   priority: ModerationPriority;
   status: ModerationQueueStatus;
+  reportCount: number;
   createdAt: string;
+  resolvedAt: string | null;
+  assignedTo: string | null;
+  // Moderator holding the review lease, while it lasts
+  claimedBy: string | null;
+  claimExpiresAt: string | null;
+  // Time from queueing to resolution (or to now while open)
+  minutesInQueue: number;
+  slaMinutes: number;
+  slaBreached: boolean;
   content?: FeedItem;
+  targetUser?: {
+    id: string;
+    displayName: string | null;
+    profileImageUrl: string | null;
+  };
 }
 
 // Analytics overview